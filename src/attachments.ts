@@ -0,0 +1,131 @@
+import { App, normalizePath, requestUrl, TFile, TFolder } from "obsidian";
+import { AttachmentHandler, AttachmentSource } from "./types";
+import { ensureFolder } from "./page-writer";
+
+export interface AttachmentSettings {
+	folder: string;
+	includeExternal: boolean;
+}
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+	"image/png": "png",
+	"image/jpeg": "jpg",
+	"image/gif": "gif",
+	"image/webp": "webp",
+	"image/svg+xml": "svg",
+	"application/pdf": "pdf",
+	"audio/mpeg": "mp3",
+	"audio/wav": "wav",
+	"audio/ogg": "ogg",
+	"video/mp4": "mp4",
+	"video/webm": "webm",
+	"video/quicktime": "mov",
+};
+
+/**
+ * Creates a handler that downloads attachments into `settings.folder`. Local
+ * names carry a hash of the file's identity, so a re-sync finds the copy it
+ * wrote before and skips the download. Use one handler per sync run.
+ */
+export function createAttachmentHandler(
+	app: App,
+	settings: AttachmentSettings
+): AttachmentHandler {
+	const stored = new Map<string, string>();
+
+	return {
+		async resolve(source: AttachmentSource): Promise<string | null> {
+			if (source.type === "external" && !settings.includeExternal) return null;
+
+			const identity = fileIdentity(source);
+			const known = stored.get(identity);
+			if (known) return known;
+
+			try {
+				const path = await storeAttachment(app, settings.folder, source, identity);
+				stored.set(identity, path);
+				return path;
+			} catch (err) {
+				console.warn(`Notion sync: Failed to download attachment ${source.url}:`, err);
+				return null;
+			}
+		},
+	};
+}
+
+/**
+ * Notion-hosted URLs are signed links whose query string changes on every
+ * request, while the path (workspace, file ID, file name) stays the same until
+ * the file itself is replaced. External URLs are taken as-is.
+ */
+function fileIdentity(source: AttachmentSource): string {
+	if (source.type === "external") return source.url;
+	try {
+		const url = new URL(source.url);
+		return url.host + url.pathname;
+	} catch {
+		return source.url;
+	}
+}
+
+async function storeAttachment(
+	app: App,
+	folder: string,
+	source: AttachmentSource,
+	identity: string
+): Promise<string> {
+	const { stem, extension } = splitFileName(source.name || urlFileName(source.url));
+	const baseName = `${stem}-${hashString(identity)}`;
+	const folderPath = normalizePath(folder);
+
+	const existing = findAttachment(app, folderPath, baseName);
+	if (existing) return existing.path;
+
+	const response = await requestUrl({ url: source.url });
+	const contentType = (response.headers["content-type"] || "").split(";")[0].trim();
+	const ext = extension || CONTENT_TYPE_EXTENSIONS[contentType] || "bin";
+
+	await ensureFolder(app, folderPath);
+	const path = normalizePath(`${folderPath}/${baseName}.${ext}`);
+	await app.vault.createBinary(path, response.arrayBuffer);
+	return path;
+}
+
+function findAttachment(app: App, folderPath: string, baseName: string): TFile | null {
+	const folder = app.vault.getAbstractFileByPath(folderPath);
+	if (!(folder instanceof TFolder)) return null;
+	for (const child of folder.children) {
+		if (child instanceof TFile && child.basename === baseName) return child;
+	}
+	return null;
+}
+
+function urlFileName(url: string): string {
+	try {
+		const segments = new URL(url).pathname.split("/");
+		return decodeURIComponent(segments[segments.length - 1] || "");
+	} catch {
+		return "";
+	}
+}
+
+function splitFileName(name: string): { stem: string; extension: string } {
+	const dot = name.lastIndexOf(".");
+	const hasExtension = dot > 0 && /^[a-z0-9]{1,5}$/i.test(name.slice(dot + 1));
+	const stem = hasExtension ? name.slice(0, dot) : name;
+	return {
+		// Characters that break file names or wikilinks
+		stem: stem.replace(/[\\/:*?"<>|#^[\]]/g, "-").trim() || "attachment",
+		extension: hasExtension ? name.slice(dot + 1).toLowerCase() : "",
+	};
+}
+
+// FNV-1a, 32-bit
+export function hashString(str: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < str.length; i++) {
+		hash ^= str.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return ("0000000" + (hash >>> 0).toString(16)).slice(-8);
+}
@@ -1,19 +1,36 @@
 import { Client } from "@notionhq/client";
 import {
 	BlockObjectResponse,
+	PageObjectResponse,
 	RichTextItemResponse,
 } from "@notionhq/client/build/src/api-endpoints";
 import { notionRequest } from "./notion-client";
+import { AttachmentHandler, ChildSyncHandler } from "./types";
 
-interface ConvertContext {
+export interface ConvertContext {
 	client: Client;
 	indentLevel: number;
+	attachments?: AttachmentHandler;
+	// Set when child pages and databases should be mirrored into childFolder
+	childSync?: ChildSyncHandler;
+	childFolder?: string;
 }
 
 export async function convertBlocksToMarkdown(
 	blocks: BlockObjectResponse[],
 	ctx: ConvertContext
 ): Promise<string> {
+	return (await convertBlocksToSegments(blocks, ctx)).join("\n");
+}
+
+/**
+ * Converts blocks one by one, returning the Markdown of each. Joined with
+ * newlines, the segments are exactly what `convertBlocksToMarkdown` returns.
+ */
+export async function convertBlocksToSegments(
+	blocks: BlockObjectResponse[],
+	ctx: ConvertContext
+): Promise<string[]> {
 	const lines: string[] = [];
 	let numberedIndex = 1;
 
@@ -33,7 +50,7 @@ export async function convertBlocksToMarkdown(
 		lines.push(result);
 	}
 
-	return lines.join("\n");
+	return lines;
 }
 
 async function convertBlock(
@@ -153,19 +170,30 @@ async function convertBlock(
 		}
 
 		case "child_page": {
-			return `[[${block.child_page.title}]]`;
+			const title = block.child_page.title;
+			if (ctx.childSync && ctx.childFolder) {
+				const link = await ctx.childSync.syncChildPage(block.id, ctx.childFolder);
+				if (link) return `[[${link}|${title}]]`;
+			}
+			return `[[${title}]]`;
 		}
 
 		case "child_database": {
-			return `<!-- child database: ${block.child_database.title} -->`;
+			const title = block.child_database.title;
+			if (ctx.childSync && ctx.childFolder) {
+				const link = await ctx.childSync.syncChildDatabase(block.id, ctx.childFolder);
+				if (link) return `[[${link}|${title}]]`;
+			}
+			return `<!-- child database: ${title} -->`;
 		}
 
 		case "image": {
-			const url =
-				block.image.type === "external"
-					? block.image.external.url
-					: block.image.file.url;
 			const caption = convertRichText(block.image.caption);
+			const local = await storeMedia(block.image, ctx);
+			if (local) {
+				return caption ? `![[${local}|${caption}]]` : `![[${local}]]`;
+			}
+			const url = mediaUrl(block.image);
 			return caption ? `![${caption}](${url})` : `![image](${url})`;
 		}
 
@@ -182,39 +210,19 @@ async function convertBlock(
 		}
 
 		case "video": {
-			const url =
-				block.video.type === "external"
-					? block.video.external.url
-					: block.video.file.url;
-			const caption = convertRichText(block.video.caption);
-			return caption ? `[${caption}](${url})` : url;
+			return await convertMedia(block.video, ctx);
 		}
 
 		case "file": {
-			const url =
-				block.file.type === "external"
-					? block.file.external.url
-					: block.file.file.url;
-			const caption = convertRichText(block.file.caption);
-			return caption ? `[${caption}](${url})` : url;
+			return await convertMedia(block.file, ctx, block.file.name);
 		}
 
 		case "pdf": {
-			const url =
-				block.pdf.type === "external"
-					? block.pdf.external.url
-					: block.pdf.file.url;
-			const caption = convertRichText(block.pdf.caption);
-			return caption ? `[${caption}](${url})` : url;
+			return await convertMedia(block.pdf, ctx);
 		}
 
 		case "audio": {
-			const url =
-				block.audio.type === "external"
-					? block.audio.external.url
-					: block.audio.file.url;
-			const caption = convertRichText(block.audio.caption);
-			return caption ? `[${caption}](${url})` : url;
+			return await convertMedia(block.audio, ctx);
 		}
 
 		case "table": {
@@ -233,7 +241,8 @@ async function convertBlock(
 		case "link_to_page": {
 			const ltp = block.link_to_page;
 			if (ltp.type === "page_id") {
-				return `[[notion-id: ${ltp.page_id}]]`;
+				const title = await fetchPageTitle(ctx.client, ltp.page_id);
+				return notionIdPlaceholder(ltp.page_id, title);
 			}
 			if (ltp.type === "database_id") {
 				return `<!-- linked database: ${ltp.database_id} -->`;
@@ -259,6 +268,45 @@ async function convertBlock(
 	}
 }
 
+type MediaContent =
+	| { type: "external"; external: { url: string }; caption: RichTextItemResponse[] }
+	| { type: "file"; file: { url: string }; caption: RichTextItemResponse[] };
+
+function mediaUrl(media: MediaContent): string {
+	return media.type === "external" ? media.external.url : media.file.url;
+}
+
+/**
+ * Returns the vault path of a local copy of the media, when attachment
+ * downloads are enabled and the handler accepted it.
+ */
+async function storeMedia(
+	media: MediaContent,
+	ctx: ConvertContext,
+	name?: string
+): Promise<string | null> {
+	if (!ctx.attachments) return null;
+	return await ctx.attachments.resolve({
+		type: media.type,
+		url: mediaUrl(media),
+		name,
+	});
+}
+
+async function convertMedia(
+	media: MediaContent,
+	ctx: ConvertContext,
+	name?: string
+): Promise<string> {
+	const caption = convertRichText(media.caption);
+	const local = await storeMedia(media, ctx, name);
+	if (local) {
+		return caption ? `![[${local}]]\n${caption}` : `![[${local}]]`;
+	}
+	const url = mediaUrl(media);
+	return caption ? `[${caption}](${url})` : url;
+}
+
 async function maybeConvertChildren(
 	block: BlockObjectResponse,
 	ctx: ConvertContext
@@ -297,6 +345,37 @@ export async function fetchAllChildren(
 	return blocks;
 }
 
+export function getPageTitle(page: PageObjectResponse): string {
+	for (const prop of Object.values(page.properties)) {
+		if (prop.type === "title") {
+			return convertRichText(prop.title);
+		}
+	}
+	return "Untitled";
+}
+
+async function fetchPageTitle(client: Client, pageId: string): Promise<string | null> {
+	try {
+		const page = await notionRequest(() =>
+			client.pages.retrieve({ page_id: pageId })
+		);
+		return "properties" in page ? getPageTitle(page) : null;
+	} catch (err) {
+		// Usually the target isn't shared with the integration; the link
+		// resolver falls back to the Notion URL
+		console.warn(`Notion sync: Could not fetch title for page ${pageId}:`, err);
+		return null;
+	}
+}
+
+/**
+ * Placeholder for a link to another Notion object. The link resolver rewrites
+ * it to a wikilink once a note with that `notion-id` exists in the vault.
+ */
+export function notionIdPlaceholder(id: string, title: string | null): string {
+	return title ? `[[notion-id: ${id}|${title}]]` : `[[notion-id: ${id}]]`;
+}
+
 export function convertRichText(richTexts: RichTextItemResponse[]): string {
 	return richTexts.map(convertRichTextItem).join("");
 }
@@ -337,9 +416,9 @@ function convertMention(item: RichTextItemResponse): string {
 	const mention = item.mention;
 	switch (mention.type) {
 		case "page":
-			return `[[notion-id: ${mention.page.id}]]`;
+			return notionIdPlaceholder(mention.page.id, item.plain_text);
 		case "database":
-			return `[[notion-id: ${mention.database.id}]]`;
+			return notionIdPlaceholder(mention.database.id, item.plain_text);
 		case "date": {
 			const d = mention.date;
 			return d.end ? `${d.start} → ${d.end}` : d.start;
@@ -388,31 +467,38 @@ async function convertColumnList(
 	return parts.join("\n\n---\n\n");
 }
 
+const CALLOUT_TYPES: Record<string, string> = {
+	"💡": "tip",
+	"⚠️": "warning",
+	"❗": "danger",
+	"❓": "question",
+	"📝": "note",
+	"🔥": "danger",
+	"✅": "success",
+	"📌": "important",
+	"🚨": "danger",
+	"💀": "danger",
+	"🐛": "bug",
+	"📖": "quote",
+	"💬": "quote",
+	"🗣️": "quote",
+	"ℹ️": "info",
+	"📋": "abstract",
+	"🎯": "example",
+	"🔗": "info",
+};
+
 function emojiToCalloutType(
 	icon: { type: string; emoji?: string } | null
 ): string {
 	if (!icon || icon.type !== "emoji" || !icon.emoji) return "info";
+	return CALLOUT_TYPES[icon.emoji] || "info";
+}
 
-	const map: Record<string, string> = {
-		"💡": "tip",
-		"⚠️": "warning",
-		"❗": "danger",
-		"❓": "question",
-		"📝": "note",
-		"🔥": "danger",
-		"✅": "success",
-		"📌": "important",
-		"🚨": "danger",
-		"💀": "danger",
-		"🐛": "bug",
-		"📖": "quote",
-		"💬": "quote",
-		"🗣️": "quote",
-		"ℹ️": "info",
-		"📋": "abstract",
-		"🎯": "example",
-		"🔗": "info",
-	};
-
-	return map[icon.emoji] || "info";
+/** The first emoji that converts to the given callout type, or null. */
+export function calloutTypeToEmoji(type: string): string | null {
+	for (const [emoji, calloutType] of Object.entries(CALLOUT_TYPES)) {
+		if (calloutType === type.toLowerCase()) return emoji;
+	}
+	return null;
 }
@@ -0,0 +1,91 @@
+import { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { moment } from "obsidian";
+import { AttachmentHandler } from "./types";
+import { getPageTitle, notionIdPlaceholder } from "./block-converter";
+import { convertPropertyValue } from "./property-converter";
+import { PLACEHOLDER_PATTERN } from "./entry-naming";
+
+export const DEFAULT_BODY_TEMPLATE = "{{content}}";
+
+export interface BodyTemplateContext {
+	page: PageObjectResponse;
+	// The converted page blocks
+	content: string;
+	attachments?: AttachmentHandler;
+	linkForId: (id: string) => string | null;
+}
+
+type PageImage = NonNullable<PageObjectResponse["cover"]>;
+
+/**
+ * Lays out a note body from a template. Besides `{{content}}` it accepts
+ * `{{title}}`, `{{heading}}` (the title as an H1), `{{icon}}`, `{{cover}}`,
+ * `{{url}}` and any property by name, with an optional moment format for
+ * dates as in `{{Due:YYYY-MM-DD}}`. Unknown properties render empty.
+ */
+export async function renderBodyTemplate(
+	template: string,
+	ctx: BodyTemplateContext
+): Promise<string> {
+	// Images are resolved up front, since replace() can't await
+	const icon = await renderIcon(ctx);
+	const cover = ctx.page.cover ? await renderImage(ctx.page.cover, ctx) : "";
+
+	return template.replace(PLACEHOLDER_PATTERN, (_match, name: string, format?: string) => {
+		switch (name) {
+			case "content":
+				return ctx.content;
+			case "title":
+				return getPageTitle(ctx.page);
+			case "heading":
+				return `# ${getPageTitle(ctx.page)}`;
+			case "icon":
+				return icon;
+			case "cover":
+				return cover;
+			case "url":
+				return ctx.page.url;
+		}
+		return renderProperty(ctx, name, format);
+	});
+}
+
+function renderProperty(ctx: BodyTemplateContext, name: string, format?: string): string {
+	const prop = ctx.page.properties[name];
+	if (!prop) return "";
+
+	if (prop.type === "date" && format) {
+		return prop.date?.start ? moment(prop.date.start).format(format) : "";
+	}
+	if (prop.type === "relation") {
+		// Unsynced pages become placeholders for the link resolver
+		return prop.relation
+			.map((r) => ctx.linkForId(r.id) ?? notionIdPlaceholder(r.id, null))
+			.join(", ");
+	}
+
+	const value = convertPropertyValue(prop, ctx.linkForId);
+	if (value === null || value === undefined) return "";
+	return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+async function renderIcon(ctx: BodyTemplateContext): Promise<string> {
+	const icon = ctx.page.icon;
+	if (!icon) return "";
+	switch (icon.type) {
+		case "emoji":
+			return icon.emoji;
+		case "custom_emoji":
+			return `:${icon.custom_emoji.name}:`;
+		default:
+			return await renderImage(icon, ctx);
+	}
+}
+
+async function renderImage(image: PageImage, ctx: BodyTemplateContext): Promise<string> {
+	const url = image.type === "external" ? image.external.url : image.file.url;
+	const local = ctx.attachments
+		? await ctx.attachments.resolve({ type: image.type, url })
+		: null;
+	return local ? `![[${local}]]` : `![](${url})`;
+}
@@ -0,0 +1,103 @@
+import { Client } from "@notionhq/client";
+import { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { App } from "obsidian";
+import { ChildSyncHandler, DatabaseSyncOptions } from "./types";
+import { notionRequest } from "./notion-client";
+import { findSyncedFile, writeStandalonePage } from "./page-writer";
+import { freshDatabaseImport, refreshDatabase } from "./database-freezer";
+import { findRegisteredFolder } from "./sync-registry";
+
+/**
+ * Creates a handler that recursively mirrors child pages and inline child
+ * databases. Use one handler per sync run: it remembers what it already wrote,
+ * so a child reachable twice is only synced once and cycles terminate.
+ */
+export function createChildSyncHandler(
+	app: App,
+	client: Client,
+	options: Omit<DatabaseSyncOptions, "childSync">
+): ChildSyncHandler {
+	const links = new Map<string, string>();
+	const inProgress = new Set<string>();
+
+	const handler: ChildSyncHandler = {
+		async syncChildPage(pageId: string, parentFolder: string): Promise<string | null> {
+			const known = links.get(pageId);
+			if (known) return known;
+			if (inProgress.has(pageId)) return null;
+
+			inProgress.add(pageId);
+			try {
+				const page = (await notionRequest(() =>
+					client.pages.retrieve({ page_id: pageId })
+				)) as PageObjectResponse;
+
+				const result = await writeStandalonePage(app, {
+					client,
+					page,
+					outputFolder: parentFolder,
+					existingFile: findSyncedFile(app, pageId) ?? undefined,
+					childSync: handler,
+					attachments: options.attachments,
+				});
+
+				const link = result.filePath.replace(/\.md$/, "");
+				links.set(pageId, link);
+				return link;
+			} catch (err) {
+				console.error(`Notion sync: Failed to sync child page ${pageId}:`, err);
+				return null;
+			} finally {
+				inProgress.delete(pageId);
+			}
+		},
+
+		async syncChildDatabase(databaseId: string, parentFolder: string): Promise<string | null> {
+			const known = links.get(databaseId);
+			if (known) return known;
+			if (inProgress.has(databaseId)) return null;
+
+			inProgress.add(databaseId);
+			try {
+				// A database synced before (here or at top level) is refreshed in
+				// place rather than imported a second time.
+				const registered = findRegisteredFolder(app, options.registry, databaseId)
+					? options.registry?.[databaseId]
+					: undefined;
+				const result = registered
+					? await refreshDatabase(
+						app,
+						client,
+						registered,
+						undefined,
+						{ ...options, childSync: handler }
+					)
+					: await freshDatabaseImport(
+						app,
+						client,
+						databaseId,
+						parentFolder,
+						undefined,
+						{ ...options, childSync: handler }
+					);
+
+				if (result.errors.length > 0) {
+					console.warn(
+						`Notion sync: Child database "${result.title}" had errors:`,
+						result.errors
+					);
+				}
+
+				links.set(databaseId, result.basePath);
+				return result.basePath;
+			} catch (err) {
+				console.error(`Notion sync: Failed to sync child database ${databaseId}:`, err);
+				return null;
+			} finally {
+				inProgress.delete(databaseId);
+			}
+		},
+	};
+
+	return handler;
+}
@@ -0,0 +1,364 @@
+import { Client } from "@notionhq/client";
+import {
+	BlockObjectResponse,
+	PageObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints";
+import { App, TFile } from "obsidian";
+import { AttachmentHandler, ChildSyncHandler } from "./types";
+import { notionRequest } from "./notion-client";
+import {
+	convertBlocksToSegments,
+	fetchAllChildren,
+	getPageTitle,
+} from "./block-converter";
+import { renderBodyTemplate } from "./body-template";
+import { relationLinker } from "./page-writer";
+import {
+	buildNotionTargetIndex,
+	notionIdResolver,
+	rewriteNotionLinks,
+	toHexId,
+} from "./link-resolver";
+import { MarkdownBlock, parseMarkdownBlocks, stripComments } from "./markdown-to-notion";
+
+// Notion accepts at most this many blocks per append
+const APPEND_BATCH_SIZE = 100;
+
+// Child pages and databases would be archived along with their block
+const PROTECTED_BLOCK_TYPES = new Set(["child_page", "child_database"]);
+
+export interface ContentPushOptions {
+	attachments?: AttachmentHandler;
+	// The database's note template, so its header and footer are left out
+	bodyTemplate?: string;
+}
+
+export interface ContentPushResult {
+	// "refused" when pushing would lose content; nothing is changed then
+	status: "pushed" | "unchanged" | "conflict" | "refused";
+	title: string;
+	// Top-level blocks created and deleted in Notion
+	added: number;
+	removed: number;
+	// Why the push was refused
+	problems: string[];
+}
+
+interface Gap {
+	// Kept block the new blocks go after, or null for the start of the page
+	afterId: string | null;
+	lines: string[];
+}
+
+/**
+ * Sends a synced note's body back to Notion as blocks. The page's current
+ * blocks are rendered the way the last sync wrote them and lined up with the
+ * note, so blocks whose Markdown is unchanged stay untouched (keeping their
+ * IDs, comments and anything Markdown can't express) and only edited runs are
+ * replaced. When an edited run holds Markdown with no Notion equivalent, the
+ * push is refused rather than dropping it.
+ */
+export async function pushPageContent(
+	app: App,
+	client: Client,
+	file: TFile,
+	page: PageObjectResponse,
+	options: ContentPushOptions = {}
+): Promise<ContentPushResult> {
+	const title = getPageTitle(page) || "Untitled";
+	const result = (
+		status: ContentPushResult["status"],
+		problems: string[] = []
+	): ContentPushResult => ({ status, title, added: 0, removed: 0, problems });
+
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+	if (frontmatter["notion-last-edited"] !== page.last_edited_time) {
+		return result("conflict");
+	}
+
+	const targets = buildNotionTargetIndex(app);
+	const body = await readNoteContent(app, file, page, options, targets);
+	if (body === null) {
+		return result("refused", [
+			"The note template's header or footer was edited, so the page content can't be told apart.",
+		]);
+	}
+
+	const blocks = await fetchAllChildren(client, page.id);
+	const segments = await convertBlocksToSegments(blocks, {
+		client,
+		indentLevel: 0,
+		attachments: options.attachments,
+		childSync: existingChildLinks(targets),
+		childFolder: file.path.replace(/\.md$/, ""),
+	});
+	const rendered = segments.map((segment) => rewriteNotionLinks(app, segment, file, targets));
+	// An empty page is written as an empty body, not as one blank line
+	// Comments and local regions stay in the vault and take no part in the diff
+	const content = stripComments(body);
+	const noteLines = content === "" && blocks.length === 0 ? [] : content.split("\n");
+
+	const kept = alignBlocks(rendered, noteLines);
+	const problems: string[] = [];
+	const removed: BlockObjectResponse[] = [];
+	blocks.forEach((block, index) => {
+		if (kept[index] !== null) return;
+		if (PROTECTED_BLOCK_TYPES.has(block.type)) {
+			problems.push(`${rendered[index]} (removing child pages and databases isn't supported)`);
+		} else if (rendered[index] === "" && block.type !== "paragraph") {
+			// Blocks the sync can't show, such as a table of contents, have
+			// nothing to edit in the note and stay where they are
+			kept[index] = -1;
+		} else {
+			removed.push(block);
+		}
+	});
+
+	const resolveNotionId = notionIdResolver(app, file.path);
+	const inserts: { afterId: string | null; blocks: MarkdownBlock[] }[] = [];
+	for (const gap of findGaps(blocks, rendered, kept, noteLines)) {
+		const parsed = parseMarkdownBlocks(gap.lines.join("\n"), resolveNotionId);
+		problems.push(...parsed.unsupported);
+		if (parsed.blocks.length > 0) {
+			inserts.push({ afterId: gap.afterId, blocks: parsed.blocks });
+		}
+	}
+
+	if (problems.length > 0) return result("refused", problems);
+	if (removed.length === 0 && inserts.length === 0) return result("unchanged");
+
+	for (const block of removed) {
+		await notionRequest(() => client.blocks.delete({ block_id: block.id }));
+	}
+	let added = 0;
+	for (const insert of inserts) {
+		await appendBlocks(client, page.id, insert.blocks, insert.afterId);
+		added += insert.blocks.length;
+	}
+
+	return { status: "pushed", title, added, removed: removed.length, problems };
+}
+
+/**
+ * The note's body below the frontmatter, without the header and footer of
+ * the note template. Null when those no longer match what the sync wrote.
+ */
+async function readNoteContent(
+	app: App,
+	file: TFile,
+	page: PageObjectResponse,
+	options: ContentPushOptions,
+	targets: Map<string, TFile>
+): Promise<string | null> {
+	const content = (await app.vault.read(file)).replace(/\r\n/g, "\n");
+	const position = app.metadataCache.getFileCache(file)?.frontmatterPosition;
+	// Editors tend to add a final newline the sync never writes
+	const body = (position ? content.slice(position.end.offset).replace(/^\n/, "") : content)
+		.replace(/\n$/, "");
+	if (!options.bodyTemplate) return body;
+
+	const marker = "\u0000content\u0000";
+	const layout = rewriteNotionLinks(
+		app,
+		await renderBodyTemplate(options.bodyTemplate, {
+			page,
+			content: marker,
+			attachments: options.attachments,
+			linkForId: relationLinker(app, targets, file.path),
+		}),
+		file,
+		targets
+	);
+	const [prefix, suffix] = layout.split(marker);
+	if (suffix === undefined) return null;
+
+	const trimmedSuffix = suffix.replace(/\n$/, "");
+	if (!body.startsWith(prefix) || !body.endsWith(trimmedSuffix)) return null;
+	return body.slice(prefix.length, body.length - trimmedSuffix.length);
+}
+
+/**
+ * Renders child page and database blocks as links to their existing notes,
+ * like the child sync does, without syncing anything.
+ */
+function existingChildLinks(targets: Map<string, TFile>): ChildSyncHandler {
+	const link = (id: string) => {
+		const target = targets.get(toHexId(id));
+		if (!target) return Promise.resolve(null);
+		return Promise.resolve(
+			target.extension === "md" ? target.path.replace(/\.md$/, "") : target.path
+		);
+	};
+	return { syncChildPage: link, syncChildDatabase: link };
+}
+
+/**
+ * Lines up each block's Markdown with the note's lines, by longest common
+ * subsequence over lines. Returns, per block, the note line its Markdown
+ * starts at, or null when the block isn't found intact and in order.
+ */
+function alignBlocks(segments: string[], noteLines: string[]): (number | null)[] {
+	const blockLines: string[] = [];
+	for (const segment of segments) {
+		blockLines.push(...segment.split("\n"));
+	}
+
+	const n = blockLines.length;
+	const m = noteLines.length;
+	const matchedAt: (number | null)[] = new Array(n).fill(null);
+
+	// Edits tend to be local, so the unchanged start and end are matched
+	// directly and only the middle is diffed
+	let start = 0;
+	while (start < n && start < m && blockLines[start] === noteLines[start]) {
+		matchedAt[start] = start;
+		start++;
+	}
+	let end = 0;
+	while (
+		end < n - start &&
+		end < m - start &&
+		blockLines[n - 1 - end] === noteLines[m - 1 - end]
+	) {
+		matchedAt[n - 1 - end] = m - 1 - end;
+		end++;
+	}
+	matchCommonLines(blockLines, start, n - end, noteLines, start, m - end, matchedAt);
+
+	// A block is kept only when all its lines matched consecutively
+	const kept: (number | null)[] = segments.map(() => null);
+	let line = 0;
+	segments.forEach((segment, index) => {
+		const count = segment.split("\n").length;
+		const first = matchedAt[line];
+		let intact = first !== null;
+		for (let k = 1; intact && k < count; k++) {
+			intact = matchedAt[line + k] === (first as number) + k;
+		}
+		if (intact) kept[index] = first;
+		line += count;
+	});
+	return kept;
+}
+
+/**
+ * Fills `matchedAt` with a longest common subsequence of `a[aFrom..aTo)` and
+ * `b[bFrom..bTo)`, using Hirschberg's algorithm so memory stays linear in
+ * the length of the note.
+ */
+function matchCommonLines(
+	a: string[],
+	aFrom: number,
+	aTo: number,
+	b: string[],
+	bFrom: number,
+	bTo: number,
+	matchedAt: (number | null)[]
+): void {
+	if (aFrom >= aTo || bFrom >= bTo) return;
+	if (aTo - aFrom === 1) {
+		const index = b.indexOf(a[aFrom], bFrom);
+		if (index !== -1 && index < bTo) matchedAt[aFrom] = index;
+		return;
+	}
+
+	const mid = (aFrom + aTo) >> 1;
+	const width = bTo - bFrom;
+	// forward[k]: LCS of a[aFrom..mid) and b[bFrom..bFrom+k)
+	let forward = new Uint32Array(width + 1);
+	for (let i = aFrom; i < mid; i++) {
+		const row = new Uint32Array(width + 1);
+		for (let k = 1; k <= width; k++) {
+			row[k] = a[i] === b[bFrom + k - 1]
+				? forward[k - 1] + 1
+				: Math.max(forward[k], row[k - 1]);
+		}
+		forward = row;
+	}
+	// backward[k]: LCS of a[mid..aTo) and b[bFrom+k..bTo)
+	let backward = new Uint32Array(width + 1);
+	for (let i = aTo - 1; i >= mid; i--) {
+		const row = new Uint32Array(width + 1);
+		for (let k = width - 1; k >= 0; k--) {
+			row[k] = a[i] === b[bFrom + k]
+				? backward[k + 1] + 1
+				: Math.max(backward[k], row[k + 1]);
+		}
+		backward = row;
+	}
+
+	let split = 0;
+	for (let k = 1; k <= width; k++) {
+		if (forward[k] + backward[k] > forward[split] + backward[split]) split = k;
+	}
+	matchCommonLines(a, aFrom, mid, b, bFrom, bFrom + split, matchedAt);
+	matchCommonLines(a, mid, aTo, b, bFrom + split, bTo, matchedAt);
+}
+
+/**
+ * Collects the runs of note lines not covered by a kept block, each with the
+ * kept block it follows. Blocks kept at -1 have no lines in the note.
+ */
+function findGaps(
+	blocks: BlockObjectResponse[],
+	segments: string[],
+	kept: (number | null)[],
+	noteLines: string[]
+): Gap[] {
+	const covered = new Map<number, { end: number; id: string }>();
+	kept.forEach((start, index) => {
+		if (start !== null && start >= 0) {
+			covered.set(start, { end: start + segments[index].split("\n").length, id: blocks[index].id });
+		}
+	});
+
+	const gaps: Gap[] = [];
+	let afterId: string | null = null;
+	let current: string[] = [];
+	for (let line = 0; line < noteLines.length; ) {
+		const block = covered.get(line);
+		if (block) {
+			if (current.length > 0) gaps.push({ afterId, lines: current });
+			current = [];
+			afterId = block.id;
+			line = block.end;
+		} else {
+			current.push(noteLines[line++]);
+		}
+	}
+	if (current.length > 0) gaps.push({ afterId, lines: current });
+	return gaps;
+}
+
+/**
+ * Inserts blocks after `afterId`, or at the start when null, in batches.
+ * Children are appended under the created blocks afterwards, since Notion
+ * limits how deep a single request may nest.
+ */
+export async function appendBlocks(
+	client: Client,
+	parentId: string,
+	blocks: MarkdownBlock[],
+	afterId: string | null
+): Promise<void> {
+	let anchor = afterId;
+	for (let i = 0; i < blocks.length; i += APPEND_BATCH_SIZE) {
+		const batch = blocks.slice(i, i + APPEND_BATCH_SIZE);
+		const response = await notionRequest(() =>
+			client.blocks.children.append({
+				block_id: parentId,
+				children: batch.map((block) => block.request),
+				position: anchor
+					? { type: "after_block", after_block: { id: anchor } }
+					: { type: "start" },
+			})
+		);
+
+		for (let k = 0; k < batch.length && k < response.results.length; k++) {
+			if (batch[k].children.length > 0) {
+				await appendBlocks(client, response.results[k].id, batch[k].children, null);
+			}
+		}
+		anchor = response.results[response.results.length - 1]?.id ?? anchor;
+	}
+}
@@ -0,0 +1,75 @@
+import { DatabaseObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+
+type DataSourceReference = DatabaseObjectResponse["data_sources"][number];
+
+/**
+ * Asks which data sources of a database to import, before its first
+ * import. Picking all of them leaves the choice unset, as in the database's
+ * settings, so sources added in Notion later sync too.
+ */
+export class DataSourcePickerModal extends Modal {
+	private title: string;
+	private dataSources: DataSourceReference[];
+	private onPick: (picked: string[] | undefined) => void;
+	private onCancel: () => void;
+	private selected: Set<string>;
+	private picked = false;
+	private importButton: ButtonComponent | null = null;
+
+	constructor(
+		app: App,
+		title: string,
+		dataSources: DataSourceReference[],
+		onPick: (picked: string[] | undefined) => void,
+		onCancel: () => void
+	) {
+		super(app);
+		this.title = title;
+		this.dataSources = dataSources;
+		this.onPick = onPick;
+		this.onCancel = onCancel;
+		this.selected = new Set(dataSources.map((dataSource) => dataSource.id));
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: `Import ${this.title}` });
+		contentEl.createEl("p", {
+			text: "This database has several data sources. Pick the ones to import; " +
+				"each gets a view in the database's .base file.",
+		});
+
+		for (const dataSource of this.dataSources) {
+			new Setting(contentEl)
+				.setName(dataSource.name || "Untitled data source")
+				.addToggle((toggle) =>
+					toggle.setValue(true).onChange((value) => {
+						if (value) this.selected.add(dataSource.id);
+						else this.selected.delete(dataSource.id);
+						this.importButton?.setDisabled(this.selected.size === 0);
+					})
+				);
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((btn) => {
+				this.importButton = btn
+					.setButtonText("Import")
+					.setCta()
+					.onClick(() => {
+						this.picked = true;
+						this.close();
+						const all = this.selected.size === this.dataSources.length;
+						this.onPick(all ? undefined : Array.from(this.selected));
+					});
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.picked) this.onCancel();
+	}
+}
@@ -0,0 +1,17 @@
+import { TFile } from "obsidian";
+
+/**
+ * Finds the root folder of the database an entry belongs to: the nearest
+ * ancestor holding a `.base` file. Entries may sit in template subfolders
+ * below it.
+ */
+export function findDatabaseFolder(file: TFile): string | null {
+	let folder = file.parent;
+	while (folder) {
+		if (folder.children.some((f) => f instanceof TFile && f.extension === "base")) {
+			return folder.path;
+		}
+		folder = folder.parent;
+	}
+	return file.parent?.path || null;
+}
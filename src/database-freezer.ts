@@ -1,22 +1,57 @@
-import { Client } from "@notionhq/client";
+import { APIErrorCode, Client, isNotionClientError } from "@notionhq/client";
 import {
 	DatabaseObjectResponse,
 	DataSourceObjectResponse,
 	PageObjectResponse,
+	QueryDataSourceResponse,
 } from "@notionhq/client/build/src/api-endpoints";
 import { App, normalizePath, TFile, TFolder } from "obsidian";
-import { DatabaseSyncResult, ProgressCallback } from "./types";
+import {
+	BaseFileChange,
+	DatabasePropertyMappings,
+	DatabasePushResult,
+	DatabaseSettings,
+	DatabaseSyncOptions,
+	DatabaseSyncResult,
+	DatabaseSyncState,
+	DeletionReason,
+	EntryFilter,
+	EntrySorts,
+	FrozenDatabase,
+	ImportCheckpoint,
+	PlannedChange,
+	PlannedChangeKind,
+	ProgressCallback,
+	RefreshSelection,
+} from "./types";
 import { notionRequest } from "./notion-client";
-import { convertRichText } from "./block-converter";
-import { writeDatabaseEntry } from "./page-writer";
-import { FrozenDatabase } from "./freeze-modal";
+import { convertRichText, getPageTitle } from "./block-converter";
+import { frontmatterKeysFor, refreshPushedEntry, writeDatabaseEntry } from "./page-writer";
+import { assignEntryPaths, EntryNamingOptions, titleFileName } from "./entry-naming";
+import { pushEntryChanges } from "./property-push";
+import { findNewNotes, publishNewNotes } from "./note-publisher";
+import { buildNotionTargetIndex, toHexId } from "./link-resolver";
+import { findRegisteredFolder, registerDatabase } from "./sync-registry";
+import {
+	DEFAULT_CONFLICT_POLICY,
+	isLocallyEdited,
+	renameKeepingHashes,
+	restampContentHash,
+	writeConflictCopy,
+} from "./local-edits";
 
+/**
+ * Imports a database into a new folder. Progress is checkpointed in
+ * `options.imports` as it goes, so an import that was cancelled or cut off
+ * continues in its folder instead of starting over.
+ */
 export async function freshDatabaseImport(
 	app: App,
 	client: Client,
 	databaseId: string,
 	outputFolder: string,
-	onProgress?: ProgressCallback
+	onProgress?: ProgressCallback,
+	options: DatabaseSyncOptions = {}
 ): Promise<DatabaseSyncResult> {
 	// Validate database exists
 	const database = (await notionRequest(() =>
@@ -25,88 +60,275 @@ export async function freshDatabaseImport(
 
 	const dbTitle = convertRichText(database.title) || "Untitled Database";
 
-	// Check if already synced
-	const existingFolder = scanForExistingSync(app, databaseId);
-	if (existingFolder) {
-		throw new Error(
-			`Already synced in folder: ${existingFolder}. Use Re-sync.`
-		);
+	const settings = options.databaseSettings?.[databaseId] ?? {};
+	const dataSources = await retrieveDataSources(client, database, settings);
+	const naming = entryNamingOptions(options, databaseId);
+	const settingsKey = syncSettingsKey(naming, settings, dataSources);
+
+	// An unfinished import is continued in its folder; where it stopped is
+	// only kept while the data sources, naming and filter are the same
+	const interrupted = findInterruptedImport(app, options.imports, databaseId);
+	if (!interrupted) {
+		const existingFolder = findRegisteredFolder(app, options.registry, databaseId);
+		if (existingFolder) {
+			throw new Error(
+				`Already synced in folder: ${existingFolder}. Use Re-sync.`
+			);
+		}
 	}
 
 	const safeName = dbTitle.replace(/[\\/:*?"<>|]/g, "-").trim() || "Untitled Database";
-	const folderPath = normalizePath(`${outputFolder}/${safeName}`);
-
-	// Get data source
-	if (!database.data_sources || database.data_sources.length === 0) {
-		throw new Error(
-			"This appears to be a linked database, which is not supported by the Notion API."
-		);
-	}
-	const dataSourceId = database.data_sources[0].id;
+	const folderPath = interrupted?.folderPath ?? normalizePath(`${outputFolder}/${safeName}`);
+	const checkpoint: ImportCheckpoint = interrupted?.settingsKey === settingsKey
+		? interrupted
+		: {
+			databaseId,
+			title: dbTitle,
+			folderPath,
+			startedAt: new Date().toISOString(),
+			settingsKey,
+			queried: [],
+			pages: [],
+			sourceIndex: 0,
+			highWaterMark: "",
+			written: [],
+		};
+	checkpoint.title = dbTitle;
+	if (options.imports) options.imports[databaseId] = checkpoint;
 
-	const dataSource = (await notionRequest(() =>
-		client.dataSources.retrieve({ data_source_id: dataSourceId })
-	)) as DataSourceObjectResponse;
+	// Saving rewrites the plugin's whole data file, so entries written are
+	// saved in batches, and whenever the import stops short
+	let unsaved = 0;
+	let lastSaved = 0;
+	const saveCheckpoint = async (force: boolean) => {
+		unsaved++;
+		if (!force && unsaved < CHECKPOINT_ENTRIES && Date.now() - lastSaved < CHECKPOINT_MS) return;
+		unsaved = 0;
+		lastSaved = Date.now();
+		await options.saveCheckpoint?.();
+	};
 
 	// Create folder and generate .base file
 	await ensureFolderExists(app, folderPath);
-	await generateBaseFile(app, dataSource, folderPath, databaseId);
+	const propertyMappings = options.propertyMappings?.[databaseId] ?? {};
+	const basePath = await writeBaseFile(
+		app,
+		renderBaseFile(dataSources, dbTitle, folderPath, databaseId, propertyMappings)
+	);
+	await saveCheckpoint(true);
 
-	// Query all entries
+	// Query all entries, from the cursor an interrupted import stopped at
 	onProgress?.({ phase: "querying" });
-	const entries = await queryAllEntries(client, dataSourceId);
+	const queried = new Set(checkpoint.queried);
+	const fetched = new Map<string, PageObjectResponse>();
+	try {
+		while (checkpoint.sourceIndex < dataSources.length) {
+			await queryAllEntries(client, dataSources[checkpoint.sourceIndex].id, {
+				...settings,
+				signal: options.signal,
+				startCursor: checkpoint.cursor,
+				onPage: async (results, nextCursor) => {
+					let count = 0;
+					for (const entry of results) {
+						fetched.set(entry.id, entry);
+						if (entry.last_edited_time > checkpoint.highWaterMark) {
+							checkpoint.highWaterMark = entry.last_edited_time;
+						}
+						if (queried.has(entry.id)) continue;
+						queried.add(entry.id);
+						checkpoint.queried.push(entry.id);
+						count++;
+					}
+					checkpoint.pages.push({
+						sourceIndex: checkpoint.sourceIndex,
+						cursor: checkpoint.cursor,
+						count,
+					});
+					// Moving on to the next data source is saved with its last page
+					checkpoint.cursor = nextCursor;
+					if (!nextCursor) checkpoint.sourceIndex++;
+					await saveCheckpoint(false);
+				},
+			});
+		}
+	} finally {
+		// Also when cancelled, so a resumed import queries on from here
+		await saveCheckpoint(true);
+	}
+
+	// Entries queried before an interruption that still need writing are
+	// fetched again a page of results at a time
+	const written = new Set(checkpoint.written);
+	const needed = checkpoint.fileNames
+		? checkpoint.queried.filter((id) => !written.has(id))
+		: checkpoint.queried;
+	await refetchEntries(client, dataSources, checkpoint, needed, fetched, {
+		...settings,
+		signal: options.signal,
+	});
+
+	// Name every entry once, so names stay put across interruptions
+	if (!checkpoint.fileNames) {
+		const entries = checkpoint.queried
+			.map((id) => fetched.get(id))
+			.filter((entry): entry is PageObjectResponse => !!entry);
+		const fileNames: Record<string, string> = {};
+		assignEntryPaths(entries, naming).forEach((name, id) => { fileNames[id] = name; });
+		checkpoint.fileNames = fileNames;
+		await saveCheckpoint(true);
+	}
 
-	const total = entries.length;
+	// Entries deleted before they were named are left out
+	const fileNames = checkpoint.fileNames;
+	const entryIds = checkpoint.queried.filter((id) => id in fileNames);
+	const total = entryIds.length;
+	const linkTargets = buildNotionTargetIndex(app);
 	let created = 0;
 	let updated = 0;
+	let skipped = 0;
 	let failed = 0;
 	const errors: string[] = [];
 
-	// Import all entries
+	// Import the entries not written yet
 	let current = 0;
-	for (const entry of entries) {
-		current++;
-		onProgress?.({ phase: "importing", current, total });
+	try {
+		for (const id of entryIds) {
+			current++;
+			if (written.has(id)) {
+				skipped++;
+				continue;
+			}
+			// Deleted in Notion since it was queried
+			const entry = fetched.get(id);
+			if (!entry) continue;
+			throwIfCancelled(options.signal);
+			onProgress?.({ phase: "importing", current, total, title: getPageTitle(entry) });
 
-		try {
-			const result = await writeDatabaseEntry(app, {
-				client,
-				page: entry,
-				outputFolder: folderPath,
-				databaseId,
-			});
+			try {
+				const result = await writeDatabaseEntry(app, {
+					client,
+					page: entry,
+					outputFolder: folderPath,
+					databaseId,
+					fileName: fileNames[id],
+					childSync: options.childSync,
+					attachments: options.attachments,
+					propertyMappings,
+					bodyTemplate: settings.bodyTemplate,
+					linkTargets,
+				});
 
-			if (result.status === "created") created++;
-			else updated++;
-		} catch (err) {
-			failed++;
-			const msg = `Entry ${entry.id}: ${err instanceof Error ? err.message : String(err)}`;
-			errors.push(msg);
-			console.error(`Notion sync: Failed to import entry ${entry.id}:`, err);
+				if (result.status === "created") created++;
+				else updated++;
+				written.add(id);
+				checkpoint.written.push(id);
+				await saveCheckpoint(false);
+			} catch (err) {
+				failed++;
+				const msg = `Entry ${id}: ${err instanceof Error ? err.message : String(err)}`;
+				errors.push(msg);
+				onProgress?.({ phase: "failed", message: msg });
+				console.error(`Notion sync: Failed to import entry ${id}:`, err);
+			}
 		}
+	} catch (err) {
+		// Cancelled: keep every entry written so far
+		await saveCheckpoint(true);
+		throw err;
+	}
+
+	if (options.registry) {
+		registerDatabase(options.registry, {
+			databaseId,
+			dataSourceIds: dataSources.map((dataSource) => dataSource.id),
+			title: dbTitle,
+			folderPath,
+			entryCount: total,
+		});
+	}
+	if (failed === 0 && options.syncState) {
+		// Entries queried early in a long import may be edited before it
+		// ends, so the next sync looks back to when the import started
+		options.syncState[databaseId] = {
+			highWaterMark: checkpoint.highWaterMark < checkpoint.startedAt
+				? checkpoint.highWaterMark
+				: checkpoint.startedAt,
+			lastFullSync: checkpoint.startedAt,
+			settingsKey,
+		};
 	}
+	// Entries that failed are left for the next re-sync
+	if (options.imports) delete options.imports[databaseId];
 
 	onProgress?.({ phase: "done" });
 
 	return {
 		title: dbTitle,
 		folderPath,
+		basePath,
 		total,
 		created,
 		updated,
-		skipped: 0,
+		renamed: 0,
+		// Written before an interruption
+		skipped,
 		deleted: 0,
+		restored: 0,
+		filteredOut: 0,
+		published: 0,
+		localEdits: 0,
+		conflictCopies: 0,
 		failed,
 		errors,
 	};
 }
 
+/**
+ * What a re-sync of a database would do, worked out by the query and diff
+ * passes without writing anything. Hand it to `applyRefreshPlan`.
+ */
+export interface RefreshPlan {
+	db: FrozenDatabase;
+	title: string;
+	total: number;
+	unchanged: number;
+	changes: PlannedChange[];
+	// Null when the .base file is already up to date
+	baseFile: BaseFileChange | null;
+	// Set when only entries edited since this time were queried, in which
+	// case deletions aren't looked for
+	editedSince?: string;
+	// Stored once the whole plan has been applied without failures
+	syncState: DatabaseSyncState;
+	dataSources: DataSourceObjectResponse[];
+	entries: Map<string, PageObjectResponse>;
+	localFiles: Map<string, TFile>;
+	fileNames: Map<string, string>;
+}
+
 export async function refreshDatabase(
 	app: App,
 	client: Client,
 	db: FrozenDatabase,
-	onProgress?: ProgressCallback
+	onProgress?: ProgressCallback,
+	options: DatabaseSyncOptions = {}
 ): Promise<DatabaseSyncResult> {
+	const plan = await planDatabaseRefresh(app, client, db, onProgress, options);
+	return await applyRefreshPlan(app, client, plan, onProgress, options);
+}
+
+/**
+ * Queries a synced database and diffs it against the vault, listing every
+ * entry a re-sync would create, update, rename, restore or mark as deleted, and how
+ * the `.base` file would change. Nothing is written.
+ */
+export async function planDatabaseRefresh(
+	app: App,
+	client: Client,
+	db: FrozenDatabase,
+	onProgress?: ProgressCallback,
+	options: DatabaseSyncOptions = {}
+): Promise<RefreshPlan> {
 	// Query fresh metadata
 	onProgress?.({ phase: "querying" });
 
@@ -116,63 +338,271 @@ export async function refreshDatabase(
 
 	const dbTitle = convertRichText(database.title) || "Untitled Database";
 
-	// Get data source
-	if (!database.data_sources || database.data_sources.length === 0) {
-		throw new Error(
-			"This appears to be a linked database, which is not supported by the Notion API."
-		);
-	}
-	const dataSourceId = database.data_sources[0].id;
-
-	const dataSource = (await notionRequest(() =>
-		client.dataSources.retrieve({ data_source_id: dataSourceId })
-	)) as DataSourceObjectResponse;
+	const settings = options.databaseSettings?.[db.databaseId] ?? {};
+	const dataSources = await retrieveDataSources(client, database, settings);
 
-	// Query all entries
-	const entries = await queryAllEntries(client, dataSourceId);
+	// Query all entries, or only recently edited ones between full syncs
+	const naming = entryNamingOptions(options, db.databaseId);
+	const settingsKey = syncSettingsKey(naming, settings, dataSources);
+	const state = options.syncState?.[db.databaseId];
+	const editedSince = incrementalSince(state, settingsKey, options.fullSyncIntervalDays);
+	const startedAt = new Date().toISOString();
+	const entries = await queryDataSources(client, dataSources, {
+		...settings,
+		editedSince,
+		signal: options.signal,
+	});
 
 	// Diff pass
 	onProgress?.({ phase: "diffing" });
-	const localFiles = scanLocalFiles(app, db.folderPath);
+	const { files: localFiles, duplicates } = scanLocalFiles(app, db.folderPath, db.databaseId);
 
-	const staleEntries: PageObjectResponse[] = [];
-	let skippedCount = 0;
+	const queriedIds = new Set(entries.map((entry) => entry.id));
+	const currentPaths = new Map<string, string>();
+	// Notes of entries that weren't queried stay where they are
+	const reservedPaths = new Set<string>();
+	for (const [id, file] of localFiles) {
+		const path = entryPath(file, db.folderPath);
+		currentPaths.set(id, path);
+		if (!queriedIds.has(id)) reservedPaths.add(path.toLowerCase());
+	}
+	const fileNames = assignEntryPaths(entries, naming, currentPaths, reservedPaths);
+
+	const changes: PlannedChange[] = [];
+	let staleCount = 0;
 	const processedIds = new Set<string>();
+	const notePath = (id: string) => normalizePath(`${db.folderPath}/${fileNames.get(id)}.md`);
+
+	// Extra copies of an entry, left behind by title changes before renames
+	// were tracked. The most recently synced copy is kept.
+	for (const file of duplicates) {
+		changes.push({
+			key: file.path,
+			kind: "remove-duplicate",
+			title: file.basename,
+			path: file.path,
+			locallyEdited: isLocallyEdited(await app.vault.cachedRead(file)),
+		});
+	}
 
 	for (const entry of entries) {
 		processedIds.add(entry.id);
 		const localFile = localFiles.get(entry.id);
+		const title = getPageTitle(entry) || "Untitled";
+		const fm = localFile ? app.metadataCache.getFileCache(localFile)?.frontmatter : undefined;
 
 		if (!localFile) {
 			// New row — not in local vault
-			staleEntries.push(entry);
+			changes.push({ key: entry.id, kind: "create", title, path: notePath(entry.id) });
+			staleCount++;
+		} else if (fm?.["notion-deleted"] === true || fm?.["notion-filtered-out"] === true) {
+			// Back after being deleted or leaving the filter. Rewriting the
+			// note drops the marker and moves it out of the archive folder.
+			const path = notePath(entry.id);
+			changes.push({
+				key: entry.id,
+				kind: "restore",
+				title,
+				path,
+				previousPath: localFile.path !== path ? localFile.path : undefined,
+				locallyEdited: isLocallyEdited(await app.vault.cachedRead(localFile)),
+			});
+			staleCount++;
+		} else if (currentPaths.get(entry.id) !== fileNames.get(entry.id)) {
+			// Needs a move, e.g. a templated value changed or a title
+			// collision appeared or went away
+			changes.push({
+				key: entry.id,
+				kind: "rename",
+				title,
+				path: notePath(entry.id),
+				previousPath: localFile.path,
+				locallyEdited: isLocallyEdited(await app.vault.cachedRead(localFile)),
+			});
+			staleCount++;
 		} else {
-			const cache = app.metadataCache.getFileCache(localFile);
-			const storedEdited = cache?.frontmatter?.["notion-last-edited"];
-			if (!storedEdited || storedEdited !== entry.last_edited_time) {
-				staleEntries.push(entry);
-			} else {
-				skippedCount++;
+			const storedEdited = fm?.["notion-last-edited"];
+			// A note from before data sources were tagged is rewritten once the
+			// database syncs several, so its .base view finds it
+			if (
+				!storedEdited ||
+				storedEdited !== entry.last_edited_time ||
+				(dataSources.length > 1 && !fm?.["notion-data-source-id"])
+			) {
+				changes.push({
+					key: entry.id,
+					kind: "update",
+					title,
+					path: localFile.path,
+					locallyEdited: isLocallyEdited(await app.vault.cachedRead(localFile)),
+				});
+				staleCount++;
+			}
+		}
+	}
+
+	// Entries in local but not in a full query, unless already marked or
+	// from a data source that isn't synced
+	const syncedSources = new Set(dataSources.map((dataSource) => toHexId(dataSource.id)));
+	const missing: [string, TFile][] = [];
+	for (const [id, file] of localFiles) {
+		if (editedSince || processedIds.has(id)) continue;
+		const fm = app.metadataCache.getFileCache(file)?.frontmatter;
+		if (fm?.["notion-deleted"] === true || fm?.["notion-filtered-out"] === true) continue;
+		// Notes from before data sources were tagged came from the first one
+		const source = fm?.["notion-data-source-id"] ?? database.data_sources[0].id;
+		if (!syncedSources.has(toHexId(String(source)))) continue;
+		missing.push([id, file]);
+	}
+
+	// With a filter, a missing entry that an unfiltered query still returns
+	// just no longer matches. For the rest, Notion tells whether the page was
+	// trashed or can't be reached.
+	const unfiltered = settings.filter && missing.length > 0
+		? await queryEntryIds(client, dataSources, options.signal)
+		: new Set<string>();
+	for (const [id, file] of missing) {
+		if (unfiltered.has(id)) {
+			changes.push({ key: id, kind: "filtered-out", title: file.basename, path: file.path });
+			continue;
+		}
+		throwIfCancelled(options.signal);
+		const status = await pageStatus(client, id);
+		const reason = status === "exists" ? undefined : status;
+		changes.push({ key: id, kind: "delete", title: file.basename, path: file.path, reason });
+	}
+
+	if (settings.publishNewNotes) {
+		for (const file of findNewNotes(app, db.folderPath)) {
+			changes.push({ key: file.path, kind: "publish", title: file.basename, path: file.path });
+		}
+	}
+
+	// Entries that weren't queried are unchanged
+	const total = editedSince
+		? localFiles.size + changes.filter((change) => change.kind === "create").length
+		: entries.length;
+	const unchanged = total - staleCount;
+	onProgress?.({ phase: "detected", staleCount, total });
+
+	const baseFile = renderBaseFile(
+		dataSources,
+		dbTitle,
+		db.folderPath,
+		db.databaseId,
+		options.propertyMappings?.[db.databaseId] ?? {}
+	);
+
+	return {
+		db,
+		title: dbTitle,
+		total,
+		unchanged,
+		changes,
+		baseFile: await diffBaseFile(app, baseFile),
+		editedSince,
+		syncState: nextSyncState(editedSince ? state : undefined, entries, settingsKey, startedAt),
+		dataSources,
+		entries: new Map(entries.map((entry) => [entry.id, entry])),
+		localFiles,
+		fileNames,
+	};
+}
+
+/**
+ * Carries out a re-sync plan. With a selection, only the chosen changes are
+ * made and the `.base` file is left alone unless it was chosen too.
+ */
+export async function applyRefreshPlan(
+	app: App,
+	client: Client,
+	plan: RefreshPlan,
+	onProgress?: ProgressCallback,
+	options: DatabaseSyncOptions = {},
+	selection?: RefreshSelection
+): Promise<DatabaseSyncResult> {
+	const { db, localFiles, fileNames } = plan;
+	const selected = selection
+		? plan.changes.filter((change) => selection.keys.has(change.key))
+		: plan.changes;
+	const ofKind = (...kinds: PlannedChangeKind[]) =>
+		selected.filter((change) => kinds.includes(change.kind));
+
+	const settings = options.databaseSettings?.[db.databaseId] ?? {};
+	const conflictPolicy = settings.conflictPolicy ?? DEFAULT_CONFLICT_POLICY;
+	let localEdits = 0;
+	let conflictCopies = 0;
+
+	// A duplicate edited locally is kept under the "skip" policy, and saved
+	// as a conflict copy first under the others that keep edits
+	for (const change of ofKind("remove-duplicate")) {
+		const file = app.vault.getAbstractFileByPath(change.path);
+		if (!(file instanceof TFile)) continue;
+		const content = await app.vault.read(file);
+		if (isLocallyEdited(content)) {
+			localEdits++;
+			if (conflictPolicy === "skip") continue;
+			if (conflictPolicy !== "overwrite") {
+				await writeConflictCopy(app, file, content);
+				conflictCopies++;
 			}
 		}
+		await app.fileManager.trashFile(file);
 	}
 
-	const total = entries.length;
-	onProgress?.({ phase: "detected", staleCount: staleEntries.length, total });
+	const staleEntries = ofKind("create", "update", "rename", "restore").map(
+		(change) => plan.entries.get(change.key) as PageObjectResponse
+	);
+
+	// Entries moving onto a path another local note still holds go last, so
+	// that note has moved out of the way by the time they are written
+	const currentPaths = new Map<string, string>();
+	for (const [id, file] of localFiles) {
+		currentPaths.set(id, entryPath(file, db.folderPath));
+	}
+	const heldPaths = new Set(
+		Array.from(currentPaths.values(), (path) => path.toLowerCase())
+	);
+	const isBlocked = (entry: PageObjectResponse) => {
+		const path = fileNames.get(entry.id)?.toLowerCase();
+		return !!path && heldPaths.has(path) && currentPaths.get(entry.id)?.toLowerCase() !== path;
+	};
+	staleEntries.sort((a, b) => Number(isBlocked(a)) - Number(isBlocked(b)));
 
 	// Update .base file (schema may have changed)
-	await generateBaseFile(app, dataSource, db.folderPath, db.databaseId);
+	const propertyMappings = options.propertyMappings?.[db.databaseId] ?? {};
+	const baseFile = renderBaseFile(
+		plan.dataSources,
+		plan.title,
+		db.folderPath,
+		db.databaseId,
+		propertyMappings
+	);
+	if (!selection || selection.baseFile) {
+		await writeBaseFile(app, baseFile);
+	}
 
 	// Import only stale entries
+	const linkTargets = buildNotionTargetIndex(app);
 	let created = 0;
 	let updated = 0;
+	let renamed = 0;
+	let restored = 0;
 	let failed = 0;
 	const errors: string[] = [];
+	const vacatedFolders = new Set<string>();
+	const restoreIds = new Set(ofKind("restore").map((change) => change.key));
 
 	let current = 0;
 	for (const entry of staleEntries) {
+		throwIfCancelled(options.signal);
 		current++;
-		onProgress?.({ phase: "importing", current, total: staleEntries.length });
+		onProgress?.({
+			phase: "importing",
+			current,
+			total: staleEntries.length,
+			title: getPageTitle(entry),
+		});
 
 		try {
 			const result = await writeDatabaseEntry(app, {
@@ -180,139 +610,696 @@ export async function refreshDatabase(
 				page: entry,
 				outputFolder: db.folderPath,
 				databaseId: db.databaseId,
+				fileName: fileNames.get(entry.id),
+				existingFile: localFiles.get(entry.id),
+				childSync: options.childSync,
+				attachments: options.attachments,
+				propertyMappings,
+				bodyTemplate: settings.bodyTemplate,
+				linkTargets,
+				conflictPolicy,
 			});
 
+			if (result.locallyEdited) localEdits++;
+			if (result.conflictPath) conflictCopies++;
 			if (result.status === "created") created++;
-			else updated++;
+			else if (result.status === "updated" && restoreIds.has(entry.id)) restored++;
+			else if (result.status === "updated") updated++;
+			if (result.renamedFrom) {
+				if (!restoreIds.has(entry.id)) renamed++;
+				vacatedFolders.add(result.renamedFrom.slice(0, result.renamedFrom.lastIndexOf("/")));
+			}
 		} catch (err) {
 			failed++;
 			const msg = `Entry ${entry.id}: ${err instanceof Error ? err.message : String(err)}`;
 			errors.push(msg);
+			onProgress?.({ phase: "failed", message: msg });
 			console.error(`Notion sync: Failed to refresh entry ${entry.id}:`, err);
 		}
 	}
 
 	// Handle deletions: entries in local but not in query
 	let deleted = 0;
-	for (const [id, file] of localFiles) {
-		if (!processedIds.has(id)) {
-			await markAsDeleted(app, file);
-			deleted++;
+	const deletionPolicy = settings.deletionPolicy ?? "flag";
+	for (const change of ofKind("delete")) {
+		const file = localFiles.get(change.key);
+		if (!file) continue;
+		if (deletionPolicy !== "flag") vacatedFolders.add(file.parent?.path ?? "");
+		if (deletionPolicy === "trash") {
+			// Follows the vault's setting for the system or Obsidian trash
+			await app.fileManager.trashFile(file);
+		} else {
+			await flagEntry(app, file, "notion-deleted", change.reason);
+			if (deletionPolicy === "archive") await archiveEntry(app, file, db.folderPath);
 		}
+		deleted++;
+	}
+
+	let filteredOut = 0;
+	const outOfFilterPolicy = settings.outOfFilterPolicy ?? "flag";
+	for (const change of ofKind("filtered-out")) {
+		const file = localFiles.get(change.key);
+		if (!file) continue;
+		if (outOfFilterPolicy === "flag") {
+			await flagEntry(app, file, "notion-filtered-out");
+		} else if (outOfFilterPolicy === "trash") {
+			vacatedFolders.add(file.parent?.path ?? "");
+			await app.fileManager.trashFile(file);
+		}
+		filteredOut++;
+	}
+
+	await removeEmptyFolders(app, vacatedFolders, db.folderPath);
+
+	let published = 0;
+	const toPublish = ofKind("publish")
+		.map((change) => app.vault.getAbstractFileByPath(change.path))
+		.filter((file): file is TFile => file instanceof TFile);
+	if (settings.publishNewNotes && toPublish.length > 0) {
+		const result = await publishNewNotes(
+			app,
+			client,
+			plan.dataSources,
+			db.databaseId,
+			toPublish,
+			propertyMappings
+		);
+		published = result.published;
+		errors.push(...result.errors);
+	}
+
+	const complete = !selection ||
+		(selection.baseFile === (plan.baseFile !== null) &&
+			plan.changes.every((change) => selection.keys.has(change.key)));
+	if (complete && failed === 0 && options.syncState) {
+		options.syncState[db.databaseId] = plan.syncState;
+	}
+	if (options.registry) {
+		registerDatabase(options.registry, {
+			databaseId: db.databaseId,
+			dataSourceIds: plan.dataSources.map((dataSource) => dataSource.id),
+			title: plan.title,
+			folderPath: db.folderPath,
+			entryCount: plan.total,
+		});
 	}
 
 	onProgress?.({ phase: "done" });
 
 	return {
-		title: dbTitle,
+		title: plan.title,
 		folderPath: db.folderPath,
-		total,
+		basePath: baseFile.path,
+		total: plan.total,
 		created,
 		updated,
-		skipped: skippedCount,
+		renamed,
+		skipped: plan.unchanged,
 		deleted,
+		restored,
+		filteredOut,
+		published,
+		localEdits,
+		conflictCopies,
 		failed,
 		errors,
 	};
 }
 
-function scanForExistingSync(app: App, databaseId: string): string | null {
-	for (const file of app.vault.getMarkdownFiles()) {
-		const cache = app.metadataCache.getFileCache(file);
-		const dbId = cache?.frontmatter?.["notion-database-id"];
-		if (dbId === databaseId) {
-			return file.parent?.path || null;
+/**
+ * Pushes frontmatter edits of every entry in a synced database back to
+ * Notion, then rewrites the pushed entries from the updated pages. Entries
+ * also edited in Notion since their last sync are left alone as conflicts.
+ */
+export async function pushDatabaseChanges(
+	app: App,
+	client: Client,
+	db: FrozenDatabase,
+	onProgress?: ProgressCallback,
+	options: DatabaseSyncOptions = {}
+): Promise<DatabasePushResult> {
+	onProgress?.({ phase: "querying" });
+
+	const database = (await notionRequest(() =>
+		client.databases.retrieve({ database_id: db.databaseId })
+	)) as DatabaseObjectResponse;
+
+	const dbTitle = convertRichText(database.title) || "Untitled Database";
+
+	const settings = options.databaseSettings?.[db.databaseId] ?? {};
+	const dataSources = await retrieveDataSources(client, database, settings);
+	const entries = await queryDataSources(client, dataSources, {
+		...settings,
+		signal: options.signal,
+	});
+
+	onProgress?.({ phase: "diffing" });
+	const { files: localFiles } = scanLocalFiles(app, db.folderPath, db.databaseId);
+	const currentPaths = new Map<string, string>();
+	for (const [id, file] of localFiles) {
+		currentPaths.set(id, entryPath(file, db.folderPath));
+	}
+	const naming = entryNamingOptions(options, db.databaseId);
+	const syncedPaths = assignEntryPaths(entries, naming, currentPaths);
+
+	const propertyMappings = options.propertyMappings?.[db.databaseId] ?? {};
+	const linkTargets = buildNotionTargetIndex(app);
+	const pushedPages = new Map<string, PageObjectResponse>();
+	const conflicts: string[] = [];
+	const refused: string[] = [];
+	let failed = 0;
+	const errors: string[] = [];
+
+	const candidates = entries.filter((entry) => localFiles.has(entry.id));
+	let current = 0;
+	for (const entry of candidates) {
+		throwIfCancelled(options.signal);
+		current++;
+		onProgress?.({
+			phase: "pushing",
+			current,
+			total: candidates.length,
+			title: getPageTitle(entry),
+		});
+		const file = localFiles.get(entry.id) as TFile;
+
+		try {
+			const result = await pushEntryChanges(app, client, file, entry, {
+				propertyMappings,
+				syncedFileName: titleFileName(syncedPaths.get(entry.id), naming),
+				linkTargets,
+			});
+			if (result.status === "conflict") {
+				conflicts.push(result.title);
+			} else if (result.status === "pushed") {
+				pushedPages.set(entry.id, result.page);
+			}
+			for (const name of result.refused) {
+				refused.push(`${result.title}: ${name}`);
+			}
+		} catch (err) {
+			failed++;
+			const msg = `Entry ${entry.id}: ${err instanceof Error ? err.message : String(err)}`;
+			errors.push(msg);
+			onProgress?.({ phase: "failed", message: msg });
+			console.error(`Notion sync: Failed to push entry ${entry.id}:`, err);
 		}
 	}
-	return null;
+
+	// Titles may have changed, so names are assigned again from the pushed pages
+	const updatedEntries = entries.map((entry) => pushedPages.get(entry.id) ?? entry);
+	const fileNames = assignEntryPaths(updatedEntries, naming, currentPaths);
+	const bodyTemplate = options.databaseSettings?.[db.databaseId]?.bodyTemplate;
+	for (const page of pushedPages.values()) {
+		try {
+			await refreshPushedEntry(app, {
+				client,
+				page,
+				outputFolder: db.folderPath,
+				databaseId: db.databaseId,
+				fileName: fileNames.get(page.id),
+				existingFile: localFiles.get(page.id) as TFile,
+				childSync: options.childSync,
+				attachments: options.attachments,
+				propertyMappings,
+				bodyTemplate,
+				linkTargets,
+			});
+		} catch (err) {
+			errors.push(`Entry ${page.id}: ${err instanceof Error ? err.message : String(err)}`);
+			console.error(`Notion sync: Failed to rewrite pushed entry ${page.id}:`, err);
+		}
+	}
+
+	onProgress?.({ phase: "done" });
+
+	return {
+		title: dbTitle,
+		pushed: pushedPages.size,
+		unchanged: candidates.length - pushedPages.size - conflicts.length - failed,
+		conflicts,
+		refused,
+		failed,
+		errors,
+	};
+}
+
+/**
+ * Whether a sync stopped because its abort signal fired. Entries written
+ * before that are kept; the sync state isn't advanced.
+ */
+export function isSyncCancelled(err: unknown): boolean {
+	return err instanceof Error && err.message === SYNC_CANCELLED;
+}
+
+export function entryNamingOptions(
+	options: DatabaseSyncOptions,
+	databaseId: string
+): EntryNamingOptions {
+	const settings = options.databaseSettings?.[databaseId] ?? {};
+	return {
+		suffix: options.collisionSuffix ?? "short-id",
+		fileNameTemplate: settings.fileNameTemplate,
+		folderTemplate: settings.folderTemplate,
+	};
+}
+
+/** Path of an entry note relative to its database folder, without extension. */
+export function entryPath(file: TFile, folderPath: string): string {
+	const relative = folderPath ? file.path.slice(folderPath.length + 1) : file.path;
+	return relative.replace(/\.md$/, "");
+}
+
+/**
+ * Retrieves the data sources of a database that are set to sync: those
+ * picked in its settings, or all of them.
+ */
+async function retrieveDataSources(
+	client: Client,
+	database: DatabaseObjectResponse,
+	settings: DatabaseSettings
+): Promise<DataSourceObjectResponse[]> {
+	if (!database.data_sources || database.data_sources.length === 0) {
+		throw new Error(
+			"This appears to be a linked database, which is not supported by the Notion API."
+		);
+	}
+	const picked = settings.dataSources?.map(toHexId);
+	const references = picked
+		? database.data_sources.filter((source) => picked.includes(toHexId(source.id)))
+		: database.data_sources;
+	if (references.length === 0) {
+		throw new Error("None of the data sources picked for this database exist anymore.");
+	}
+
+	const dataSources: DataSourceObjectResponse[] = [];
+	for (const reference of references) {
+		dataSources.push(
+			(await notionRequest(() =>
+				client.dataSources.retrieve({ data_source_id: reference.id })
+			)) as DataSourceObjectResponse
+		);
+	}
+	return dataSources;
+}
+
+// Entries of several data sources, one source after another
+async function queryDataSources(
+	client: Client,
+	dataSources: DataSourceObjectResponse[],
+	query: EntryQuery = {}
+): Promise<PageObjectResponse[]> {
+	const entries: PageObjectResponse[] = [];
+	for (const dataSource of dataSources) {
+		entries.push(...(await queryAllEntries(client, dataSource.id, query)));
+	}
+	return entries;
+}
+
+/**
+ * IDs of every entry in the data sources, regardless of the filter. Only
+ * the title property is asked for, which keeps the pages of results small.
+ */
+async function queryEntryIds(
+	client: Client,
+	dataSources: DataSourceObjectResponse[],
+	signal: AbortSignal | undefined
+): Promise<Set<string>> {
+	const ids = new Set<string>();
+	for (const dataSource of dataSources) {
+		let cursor: string | undefined = undefined;
+		do {
+			throwIfCancelled(signal);
+			const response = await notionRequest(() =>
+				client.dataSources.query({
+					data_source_id: dataSource.id,
+					start_cursor: cursor,
+					page_size: 100,
+					filter_properties: ["title"],
+				})
+			);
+			for (const result of response.results) ids.add(result.id);
+			cursor = response.has_more
+				? (response.next_cursor ?? undefined)
+				: undefined;
+		} while (cursor);
+	}
+	return ids;
+}
+
+interface EntryQuery {
+	filter?: EntryFilter;
+	sorts?: EntrySorts;
+	// Only entries edited on or after this time
+	editedSince?: string;
+	signal?: AbortSignal;
+	// Continues a query that was cut off
+	startCursor?: string;
+	// Called with each page of results and the cursor that follows it,
+	// which is undefined after the last page
+	onPage?: (entries: PageObjectResponse[], nextCursor: string | undefined) => Promise<void>;
 }
 
 async function queryAllEntries(
 	client: Client,
-	dataSourceId: string
+	dataSourceId: string,
+	query: EntryQuery = {}
 ): Promise<PageObjectResponse[]> {
 	const entries: PageObjectResponse[] = [];
-	let cursor: string | undefined = undefined;
+	const filter = combineFilters(query);
+	let cursor: string | undefined = query.startCursor;
 
 	do {
+		throwIfCancelled(query.signal);
 		const response = await notionRequest(() =>
 			client.dataSources.query({
 				data_source_id: dataSourceId,
 				start_cursor: cursor,
 				page_size: 100,
+				filter,
+				sorts: query.sorts,
 			})
 		);
-		for (const result of response.results) {
-			if (result.object === "page" && "properties" in result) {
-				entries.push(result);
-			}
-		}
+		const page = pageResults(response.results);
+		entries.push(...page);
 		cursor = response.has_more
 			? (response.next_cursor ?? undefined)
 			: undefined;
+		await query.onPage?.(page, cursor);
 	} while (cursor);
 
 	return entries;
 }
 
+// The entries among a page of query results
+function pageResults(results: QueryDataSourceResponse["results"]): PageObjectResponse[] {
+	const entries: PageObjectResponse[] = [];
+	for (const result of results) {
+		if (result.object === "page" && "properties" in result) {
+			entries.push(result);
+		}
+	}
+	return entries;
+}
+
+/**
+ * The database's own filter, narrowed to recent edits when `editedSince` is
+ * set. The edit condition joins a top-level "and" rather than wrapping it,
+ * since Notion only allows two levels of nesting.
+ */
+function combineFilters(query: EntryQuery): EntryFilter | undefined {
+	if (!query.editedSince) return query.filter;
+	const edited: EntryFilter = {
+		timestamp: "last_edited_time",
+		last_edited_time: { on_or_after: query.editedSince },
+	};
+	if (!query.filter) return edited;
+	if ("and" in query.filter) return { and: [...query.filter.and, edited] };
+	return { and: [query.filter, edited] } as EntryFilter;
+}
+
+/**
+ * The checkpoint of an unfinished import of a database, unless its folder
+ * was deleted since.
+ */
+function findInterruptedImport(
+	app: App,
+	imports: Record<string, ImportCheckpoint> | undefined,
+	databaseId: string
+): ImportCheckpoint | null {
+	const checkpoint = imports?.[databaseId];
+	if (!checkpoint) return null;
+	return app.vault.getAbstractFileByPath(checkpoint.folderPath) instanceof TFolder
+		? checkpoint
+		: null;
+}
+
+/**
+ * Fetches the entries among `ids` that are not in `known` yet, adding them
+ * to it. Each page of query results that held one is queried again from
+ * its checkpointed cursor; entries that moved off their page since are
+ * retrieved one by one, and those deleted since are left out.
+ */
+async function refetchEntries(
+	client: Client,
+	dataSources: DataSourceObjectResponse[],
+	checkpoint: ImportCheckpoint,
+	ids: string[],
+	known: Map<string, PageObjectResponse>,
+	query: EntryQuery
+): Promise<void> {
+	const missing = new Set(ids.filter((id) => !known.has(id)));
+	if (missing.size === 0) return;
+
+	const filter = combineFilters(query);
+	let offset = 0;
+	for (const page of checkpoint.pages) {
+		const pageIds = checkpoint.queried.slice(offset, offset + page.count);
+		offset += page.count;
+		if (!pageIds.some((id) => missing.has(id))) continue;
+		throwIfCancelled(query.signal);
+		const response = await notionRequest(() =>
+			client.dataSources.query({
+				data_source_id: dataSources[page.sourceIndex].id,
+				start_cursor: page.cursor,
+				page_size: 100,
+				filter,
+				sorts: query.sorts,
+			})
+		);
+		for (const entry of pageResults(response.results)) {
+			known.set(entry.id, entry);
+			missing.delete(entry.id);
+		}
+	}
+
+	for (const id of missing) {
+		throwIfCancelled(query.signal);
+		let entry: PageObjectResponse;
+		try {
+			entry = (await notionRequest(() =>
+				client.pages.retrieve({ page_id: id })
+			)) as PageObjectResponse;
+		} catch (err) {
+			if (isNotionClientError(err) && err.code === APIErrorCode.ObjectNotFound) continue;
+			throw err;
+		}
+		if (!entry.in_trash && !entry.archived) known.set(id, entry);
+	}
+}
+
+/**
+ * Whether a page missing from a query is still in Notion, and if not,
+ * whether it is in the trash or out of the integration's reach.
+ */
+async function pageStatus(client: Client, pageId: string): Promise<"exists" | DeletionReason> {
+	try {
+		const page = (await notionRequest(() =>
+			client.pages.retrieve({ page_id: pageId })
+		)) as PageObjectResponse;
+		return page.in_trash || page.archived ? "in-trash" : "exists";
+	} catch (err) {
+		// Notion answers the same for pages that were unshared and pages
+		// deleted for good
+		if (isNotionClientError(err) && err.code === APIErrorCode.ObjectNotFound) return "no-access";
+		throw err;
+	}
+}
+
+// Identifies the settings an incremental sync depends on
+function syncSettingsKey(
+	naming: EntryNamingOptions,
+	settings: DatabaseSettings,
+	dataSources: DataSourceObjectResponse[]
+): string {
+	return JSON.stringify({
+		naming,
+		filter: settings.filter ?? null,
+		dataSources: dataSources.map((dataSource) => dataSource.id),
+	});
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An import's checkpoint is saved after this many entries or this long,
+// whichever comes first
+const CHECKPOINT_ENTRIES = 50;
+const CHECKPOINT_MS = 10 * 1000;
+
+const SYNC_CANCELLED = "Sync cancelled.";
+
+// Checked between entries and between paginated requests
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+	if (signal?.aborted) throw new Error(SYNC_CANCELLED);
+}
+
+// Subfolder of a database folder that the "archive" deletion policy uses
+const ARCHIVE_FOLDER = "_archive";
+
+/**
+ * The high-water mark to query from, or undefined when a full sync is due:
+ * on the first re-sync, once the full-sync interval has passed, or after the
+ * file naming options or filter changed.
+ */
+function incrementalSince(
+	state: DatabaseSyncState | undefined,
+	settingsKey: string,
+	intervalDays = 0
+): string | undefined {
+	if (!state?.highWaterMark || intervalDays <= 0) return undefined;
+	if (state.settingsKey !== settingsKey) return undefined;
+	const age = Date.now() - Date.parse(state.lastFullSync);
+	// Notion rounds edit times down to the minute, hence "on or after"
+	return age < intervalDays * DAY_MS ? state.highWaterMark : undefined;
+}
+
+/**
+ * The state to record after syncing `entries`. `previous` carries the last
+ * full sync time over from an incremental sync; without it this sync counts
+ * as a full one.
+ */
+function nextSyncState(
+	previous: DatabaseSyncState | undefined,
+	entries: PageObjectResponse[],
+	settingsKey: string,
+	startedAt: string
+): DatabaseSyncState {
+	let highWaterMark = previous?.highWaterMark ?? "";
+	for (const entry of entries) {
+		if (entry.last_edited_time > highWaterMark) highWaterMark = entry.last_edited_time;
+	}
+	return {
+		highWaterMark,
+		lastFullSync: previous?.lastFullSync ?? startedAt,
+		settingsKey,
+	};
+}
+
+interface LocalScan {
+	files: Map<string, TFile>;
+	duplicates: TFile[];
+}
+
 function scanLocalFiles(
 	app: App,
-	folderPath: string
-): Map<string, TFile> {
-	const map = new Map<string, TFile>();
+	folderPath: string,
+	databaseId: string
+): LocalScan {
+	const files = new Map<string, TFile>();
+	const duplicates: TFile[] = [];
 	const folder = app.vault.getAbstractFileByPath(folderPath);
-	if (!(folder instanceof TFolder)) return map;
+	if (!(folder instanceof TFolder)) return { files, duplicates };
 
-	for (const child of folder.children) {
-		if (!(child instanceof TFile) || child.extension !== "md") continue;
-		const cache = app.metadataCache.getFileCache(child);
-		const notionId = cache?.frontmatter?.["notion-id"];
-		if (notionId) {
-			map.set(notionId, child);
+	// Entries may be grouped into subfolders by a folder template. Child pages
+	// and child databases live in subfolders too, so match on the database ID.
+	const pending: TFolder[] = [folder];
+	while (pending.length > 0) {
+		const current = pending.pop() as TFolder;
+		for (const child of current.children) {
+			if (child instanceof TFolder) {
+				pending.push(child);
+				continue;
+			}
+			if (!(child instanceof TFile) || child.extension !== "md") continue;
+			const cache = app.metadataCache.getFileCache(child);
+			const notionId = cache?.frontmatter?.["notion-id"];
+			if (!notionId || cache?.frontmatter?.["notion-database-id"] !== databaseId) continue;
+
+			const existing = files.get(notionId);
+			if (!existing) {
+				files.set(notionId, child);
+			} else if (isNewerSync(app, child, existing)) {
+				files.set(notionId, child);
+				duplicates.push(existing);
+			} else {
+				duplicates.push(child);
+			}
 		}
 	}
 
-	return map;
+	return { files, duplicates };
+}
+
+function isNewerSync(app: App, a: TFile, b: TFile): boolean {
+	const frozenA = String(app.metadataCache.getFileCache(a)?.frontmatter?.["notion-frozen-at"] ?? "");
+	const frozenB = String(app.metadataCache.getFileCache(b)?.frontmatter?.["notion-frozen-at"] ?? "");
+	if (frozenA !== frozenB) return frozenA > frozenB;
+	// A copy made in the vault carries the same sync time; the original is
+	// the one created first
+	return a.stat.ctime < b.stat.ctime;
 }
 
-async function markAsDeleted(app: App, file: TFile): Promise<void> {
+/**
+ * Sets a `true` flag such as `notion-deleted` in a note's frontmatter.
+ */
+async function flagEntry(
+	app: App,
+	file: TFile,
+	flag: string,
+	reason?: DeletionReason
+): Promise<void> {
 	const content = await app.vault.read(file);
 
 	// Check if already marked
-	if (content.includes("notion-deleted: true")) return;
+	if (content.includes(`${flag}: true`)) return;
+	const lines = reason ? `${flag}: true\nnotion-deleted-reason: ${reason}` : `${flag}: true`;
 
-	// Insert notion-deleted into frontmatter
+	// Insert the flag into frontmatter
 	if (content.startsWith("---\n")) {
 		const endIdx = content.indexOf("\n---", 3);
 		if (endIdx !== -1) {
 			const before = content.slice(0, endIdx);
 			const after = content.slice(endIdx);
-			await app.vault.modify(file, before + "\nnotion-deleted: true" + after);
+			await app.vault.modify(
+				file,
+				restampContentHash(content, `${before}\n${lines}${after}`)
+			);
 			return;
 		}
 	}
 
 	// No frontmatter found, add it
-	const fm = "---\nnotion-deleted: true\n---\n";
+	const fm = `---\n${lines}\n---\n`;
 	await app.vault.modify(file, fm + content);
 }
 
-async function generateBaseFile(
-	app: App,
-	dataSource: DataSourceObjectResponse,
+/**
+ * Moves a deleted entry's note into the archive folder, keeping its path
+ * below the database folder. A re-sync moves it back if the entry returns.
+ */
+async function archiveEntry(app: App, file: TFile, folderPath: string): Promise<void> {
+	const archived = normalizePath(`${folderPath}/${ARCHIVE_FOLDER}/${entryPath(file, folderPath)}`);
+	let path = `${archived}.md`;
+	for (let n = 2; app.vault.getAbstractFileByPath(path); n++) {
+		path = `${archived} ${n}.md`;
+	}
+	await ensureFolderExists(app, path.slice(0, path.lastIndexOf("/")));
+	await renameKeepingHashes(app, file, path);
+}
+
+interface BaseFile {
+	path: string;
+	content: string;
+	// Frontmatter keys listed as table columns
+	columns: string[];
+	folderPath: string;
+	databaseId: string;
+}
+
+function renderBaseFile(
+	dataSources: DataSourceObjectResponse[],
+	databaseTitle: string,
 	folderPath: string,
-	notionId: string
-): Promise<void> {
-	const title = convertRichText(dataSource.title) || "Untitled Database";
+	notionId: string,
+	propertyMappings: DatabasePropertyMappings
+): BaseFile {
+	// A single data source keeps its own name, as before data sources could
+	// be picked; several share one file named after the database
+	const title = dataSources.length === 1
+		? convertRichText(dataSources[0].title) || "Untitled Database"
+		: databaseTitle;
 	const basePath = normalizePath(`${folderPath}/${title}.base`);
 
-	// Build property order from data source schema
-	const order: string[] = [];
-	for (const [name, config] of Object.entries(dataSource.properties)) {
-		if (config.type === "title") continue;
-		order.push(name);
-	}
-
 	// Obsidian Bases use YAML with expression-based filters
 	const yamlLines: string[] = [];
 	yamlLines.push("filters:");
@@ -321,23 +1308,126 @@ async function generateBaseFile(
 	yamlLines.push(`    - 'note["notion-database-id"] == "${notionId}"'`);
 	yamlLines.push("");
 	yamlLines.push("views:");
-	yamlLines.push("  - type: table");
-	yamlLines.push("    name: All entries");
-	if (order.length > 0) {
-		yamlLines.push("    order:");
-		for (const prop of order) {
-			yamlLines.push(`      - "${prop}"`);
+
+	// One view per data source, listing every column that gets written to
+	// frontmatter (formulas, rollups and IDs included)
+	const columns: string[] = [];
+	for (const dataSource of dataSources) {
+		const order: string[] = [];
+		for (const [name, config] of Object.entries(dataSource.properties)) {
+			for (const key of frontmatterKeysFor(name, config.type, propertyMappings[config.id])) {
+				if (!order.includes(key)) order.push(key);
+				if (!columns.includes(key)) columns.push(key);
+			}
+		}
+
+		yamlLines.push("  - type: table");
+		if (dataSources.length === 1) {
+			yamlLines.push("    name: All entries");
+		} else {
+			const name = convertRichText(dataSource.title) || "Untitled data source";
+			yamlLines.push(`    name: ${JSON.stringify(name)}`);
+			yamlLines.push("    filters:");
+			yamlLines.push("      and:");
+			yamlLines.push(`        - 'note["notion-data-source-id"] == "${dataSource.id}"'`);
+		}
+		if (order.length > 0) {
+			yamlLines.push("    order:");
+			for (const prop of order) {
+				yamlLines.push(`      - "${prop}"`);
+			}
 		}
 	}
 	yamlLines.push("");
 
-	const baseContent = yamlLines.join("\n");
+	return {
+		path: basePath,
+		content: yamlLines.join("\n"),
+		columns,
+		folderPath,
+		databaseId: notionId,
+	};
+}
 
-	const existingFile = app.vault.getAbstractFileByPath(basePath);
+/**
+ * Finds the `.base` file written for the same database under another name,
+ * as when the number of data sources picked changes which title it takes.
+ */
+async function findPreviousBaseFile(app: App, baseFile: BaseFile): Promise<TFile | null> {
+	const marker = `note["notion-database-id"] == "${baseFile.databaseId}"`;
+	const folder = app.vault.getAbstractFileByPath(baseFile.folderPath);
+	if (!(folder instanceof TFolder)) return null;
+	for (const child of folder.children) {
+		if (!(child instanceof TFile) || child.extension !== "base" || child.path === baseFile.path) {
+			continue;
+		}
+		if ((await app.vault.cachedRead(child)).includes(marker)) return child;
+	}
+	return null;
+}
+
+async function writeBaseFile(app: App, baseFile: BaseFile): Promise<string> {
+	const existingFile = app.vault.getAbstractFileByPath(baseFile.path)
+		?? await findPreviousBaseFile(app, baseFile);
 	if (existingFile instanceof TFile) {
-		await app.vault.modify(existingFile, baseContent);
+		// Renamed rather than recreated, so links to the old name follow it
+		if (existingFile.path !== baseFile.path) {
+			await renameKeepingHashes(app, existingFile, baseFile.path);
+		}
+		await app.vault.modify(existingFile, baseFile.content);
 	} else {
-		await app.vault.create(basePath, baseContent);
+		await app.vault.create(baseFile.path, baseFile.content);
+	}
+	return baseFile.path;
+}
+
+/**
+ * Compares a rendered `.base` file with the one in the vault. Columns are
+ * read back from the `order` list the sync writes.
+ */
+async function diffBaseFile(app: App, baseFile: BaseFile): Promise<BaseFileChange | null> {
+	const existingFile = app.vault.getAbstractFileByPath(baseFile.path)
+		?? await findPreviousBaseFile(app, baseFile);
+	if (!(existingFile instanceof TFile)) {
+		return { path: baseFile.path, created: true, added: baseFile.columns, removed: [] };
+	}
+
+	const content = await app.vault.read(existingFile);
+	const previousPath = existingFile.path !== baseFile.path ? existingFile.path : undefined;
+	if (content === baseFile.content && !previousPath) return null;
+
+	const columns: string[] = [];
+	const columnPattern = /^ {6}- "(.*)"$/gm;
+	let match: RegExpExecArray | null;
+	while ((match = columnPattern.exec(content)) !== null) {
+		columns.push(match[1]);
+	}
+	return {
+		path: baseFile.path,
+		previousPath,
+		created: false,
+		added: baseFile.columns.filter((column) => !columns.includes(column)),
+		removed: columns.filter((column) => !baseFile.columns.includes(column)),
+	};
+}
+
+async function removeEmptyFolders(
+	app: App,
+	folderPaths: Set<string>,
+	root: string
+): Promise<void> {
+	for (const path of folderPaths) {
+		let folder = app.vault.getAbstractFileByPath(path);
+		while (
+			folder instanceof TFolder &&
+			folder.path !== root &&
+			folder.path.startsWith(root + "/") &&
+			folder.children.length === 0
+		) {
+			const parent: TFolder | null = folder.parent;
+			await app.vault.delete(folder);
+			folder = parent;
+		}
 	}
 }
 
@@ -0,0 +1,499 @@
+import {
+	DatabaseObjectResponse,
+	DataSourceObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints";
+import { App, Modal, Notice, Setting } from "obsidian";
+import NotionFreezePlugin from "./main";
+import {
+	ConflictPolicy,
+	DatabaseSettings,
+	DeletionPolicy,
+	EntryFilter,
+	EntrySorts,
+	FrozenDatabase,
+	OutOfFilterPolicy,
+	PeopleFormat,
+	PropertyMapping,
+	SyncSchedule,
+} from "./types";
+import { createNotionClient, notionRequest } from "./notion-client";
+import { LIST_TARGET_TYPES, UNMAPPED_PROPERTY_TYPES } from "./page-writer";
+import { DEFAULT_FILE_NAME_TEMPLATE } from "./entry-naming";
+import { DEFAULT_BODY_TEMPLATE } from "./body-template";
+import { DEFAULT_CONFLICT_POLICY } from "./local-edits";
+import { DEFAULT_SCHEDULE_MINUTES } from "./sync-scheduler";
+
+type PropertyConfig = DataSourceObjectResponse["properties"][string];
+
+/**
+ * Edits one synced database's file layout and how its properties are written
+ * to frontmatter. The schema is loaded from Notion so every column can be
+ * configured, not just the ones already present in notes. Changes apply on
+ * the next sync.
+ */
+export class DatabaseSettingsModal extends Modal {
+	private plugin: NotionFreezePlugin;
+	private db: FrozenDatabase;
+
+	constructor(app: App, plugin: NotionFreezePlugin, db: FrozenDatabase) {
+		super(app);
+		this.plugin = plugin;
+		this.db = db;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: this.db.title });
+		contentEl.createEl("p", { text: "Changes apply on the next sync." });
+
+		this.renderFileSettings();
+
+		contentEl.createEl("h3", { text: "Synced entries" });
+		this.renderQuerySettings();
+
+		contentEl.createEl("h3", { text: "Schedule" });
+		this.renderScheduleSettings();
+
+		const status = contentEl.createEl("p", { text: "Loading properties from Notion..." });
+		this.loadDataSources()
+			.then((dataSources) => {
+				status.remove();
+				if (dataSources.length > 1) {
+					contentEl.createEl("h3", { text: "Data sources" });
+					this.renderDataSources(dataSources);
+				}
+
+				contentEl.createEl("h3", { text: "Properties" });
+				for (const dataSource of dataSources) {
+					if (dataSources.length > 1) {
+						new Setting(contentEl).setName(dataSourceName(dataSource)).setHeading();
+					}
+					const properties = Object.values(dataSource.properties).filter(
+						(config) => !UNMAPPED_PROPERTY_TYPES.has(config.type)
+					);
+					for (const config of properties) {
+						this.renderProperty(config);
+					}
+				}
+			})
+			.catch((err) => {
+				console.error("Notion sync error:", err);
+				status.setText(
+					`Could not load properties: ${err instanceof Error ? err.message : String(err)}`
+				);
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderFileSettings(): void {
+		const settings = this.plugin.settings.databaseSettings[this.db.databaseId] ?? {};
+
+		new Setting(this.contentEl)
+			.setName("File name template")
+			.setDesc(
+				"Use {{title}}, {{unique_id}}, {{short_id}} or any property name, " +
+				"e.g. {{unique_id}} {{title}}. Dates take a format: {{Date:YYYY-MM-DD}}."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_FILE_NAME_TEMPLATE)
+					.setValue(settings.fileNameTemplate ?? "")
+					.onChange(async (value) => {
+						await this.updateDatabaseSettings({
+							fileNameTemplate: value.trim() || undefined,
+						});
+					})
+			);
+
+		new Setting(this.contentEl)
+			.setName("Folder template")
+			.setDesc(
+				"Group entries into subfolders, e.g. {{Status}} or {{created_time:YYYY/MM}}. " +
+				"Leave empty to keep entries in one folder."
+			)
+			.addText((text) =>
+				text
+					.setValue(settings.folderTemplate ?? "")
+					.onChange(async (value) => {
+						await this.updateDatabaseSettings({
+							folderTemplate: value.trim().replace(/^\/+|\/+$/g, "") || undefined,
+						});
+					})
+			);
+
+		new Setting(this.contentEl)
+			.setName("Note template")
+			.setDesc(
+				"Layout of each note below the frontmatter. {{content}} is the page body; " +
+				"{{heading}}, {{title}}, {{icon}}, {{cover}}, {{url}} and property names also work."
+			)
+			.addTextArea((text) => {
+				text.inputEl.rows = 6;
+				text
+					.setPlaceholder(DEFAULT_BODY_TEMPLATE)
+					.setValue(settings.bodyTemplate ?? "")
+					.onChange(async (value) => {
+						await this.updateDatabaseSettings({
+							bodyTemplate: value.trim() ? value : undefined,
+						});
+					});
+			});
+
+		new Setting(this.contentEl)
+			.setName("Publish new notes")
+			.setDesc(
+				"On re-sync, create a Notion entry for each note added to this folder " +
+				"without a notion-id, from its frontmatter and content."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.publishNewNotes ?? false)
+					.onChange(async (value) => {
+						await this.updateDatabaseSettings({ publishNewNotes: value || undefined });
+					})
+			);
+
+		new Setting(this.contentEl)
+			.setName("Local edits")
+			.setDesc(
+				"What a re-sync does with notes edited since they were last synced. " +
+				"Local notes are kept between %% notion-local %% and %% /notion-local %% lines."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("conflict-copy", "Save a .conflict copy, then update")
+					.addOption("skip", "Keep the note, don't update")
+					.addOption("local-regions", "Keep local notes, update the rest")
+					.addOption("overwrite", "Overwrite")
+					.setValue(settings.conflictPolicy ?? DEFAULT_CONFLICT_POLICY)
+					.onChange(async (value) => {
+						await this.updateDatabaseSettings({
+							conflictPolicy: value === DEFAULT_CONFLICT_POLICY
+								? undefined
+								: (value as ConflictPolicy),
+						});
+					})
+			);
+	}
+
+	private renderQuerySettings(): void {
+		const settings = this.plugin.settings.databaseSettings[this.db.databaseId] ?? {};
+
+		const filterDesc =
+			"Only sync entries matching this Notion API filter, as JSON. " +
+			"Leave empty to sync every entry.";
+		const filterSetting = new Setting(this.contentEl)
+			.setName("Filter")
+			.setDesc(filterDesc)
+			.addTextArea((text) => {
+				text.inputEl.rows = 6;
+				text
+					.setPlaceholder('{ "property": "Status", "status": { "does_not_equal": "Archived" } }')
+					.setValue(settings.filter ? JSON.stringify(settings.filter, null, 2) : "")
+					.onChange(async (value) => {
+						const filter = parseJsonSetting(value, "object");
+						if (filter === null) {
+							filterSetting.setDesc("Not valid JSON yet; the previous filter is kept.");
+							return;
+						}
+						filterSetting.setDesc(filterDesc);
+						await this.updateDatabaseSettings({ filter: filter as EntryFilter | undefined });
+					});
+			});
+
+		const sortsDesc = "Order entries are queried and listed in, as a JSON array of Notion API sorts.";
+		const sortsSetting = new Setting(this.contentEl)
+			.setName("Sorts")
+			.setDesc(sortsDesc)
+			.addTextArea((text) => {
+				text.inputEl.rows = 3;
+				text
+					.setPlaceholder('[{ "timestamp": "created_time", "direction": "descending" }]')
+					.setValue(settings.sorts ? JSON.stringify(settings.sorts, null, 2) : "")
+					.onChange(async (value) => {
+						const sorts = parseJsonSetting(value, "array");
+						if (sorts === null) {
+							sortsSetting.setDesc("Not a valid JSON array yet; the previous sorts are kept.");
+							return;
+						}
+						sortsSetting.setDesc(sortsDesc);
+						await this.updateDatabaseSettings({ sorts: sorts as EntrySorts | undefined });
+					});
+			});
+
+		new Setting(this.contentEl)
+			.setName("Deleted entries")
+			.setDesc(
+				"What a full re-sync does with notes of entries deleted in Notion or no longer " +
+				"shared with the integration. Marked notes are restored if their entry comes back."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("flag", "Mark with notion-deleted")
+					.addOption("archive", "Mark and move to the _archive subfolder")
+					.addOption("trash", "Move the note to trash")
+					.setValue(settings.deletionPolicy ?? "flag")
+					.onChange(async (value) => {
+						await this.updateDatabaseSettings({
+							deletionPolicy: value === "flag" ? undefined : (value as DeletionPolicy),
+						});
+					})
+			);
+
+		new Setting(this.contentEl)
+			.setName("Entries leaving the filter")
+			.setDesc(
+				"What a full re-sync does with notes of entries that still exist in Notion " +
+				"but no longer match the filter."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("flag", "Mark with notion-filtered-out")
+					.addOption("keep", "Leave the note as it is")
+					.addOption("trash", "Move the note to trash")
+					.setValue(settings.outOfFilterPolicy ?? "flag")
+					.onChange(async (value) => {
+						await this.updateDatabaseSettings({
+							outOfFilterPolicy: value === "flag" ? undefined : (value as OutOfFilterPolicy),
+						});
+					})
+			);
+	}
+
+	private renderScheduleSettings(): void {
+		const settings = this.plugin.settings.databaseSettings[this.db.databaseId] ?? {};
+
+		let minutesSetting: Setting | null = null;
+		new Setting(this.contentEl)
+			.setName("Re-sync automatically")
+			.setDesc("Scheduled re-syncs run in the background while Obsidian is open and online.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("", "Off")
+					.addOption("startup", "When the vault opens")
+					.addOption("minutes", "Every few minutes")
+					.addOption("hourly", "Hourly")
+					.addOption("daily", "Daily")
+					.setValue(settings.schedule ?? "")
+					.onChange(async (value) => {
+						minutesSetting?.settingEl.toggle(value === "minutes");
+						await this.updateDatabaseSettings({
+							schedule: value ? (value as SyncSchedule) : undefined,
+						});
+					})
+			);
+
+		minutesSetting = new Setting(this.contentEl)
+			.setName("Minutes between re-syncs")
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SCHEDULE_MINUTES))
+					.setValue(settings.scheduleMinutes ? String(settings.scheduleMinutes) : "")
+					.onChange(async (value) => {
+						const minutes = parseInt(value.trim(), 10);
+						await this.updateDatabaseSettings({
+							scheduleMinutes: minutes > 0 ? minutes : undefined,
+						});
+					})
+			);
+		minutesSetting.settingEl.toggle(settings.schedule === "minutes");
+
+		const lastRun = this.plugin.settings.databases[this.db.databaseId]?.lastSync;
+		if (lastRun) {
+			const when = new Date(lastRun.finishedAt).toLocaleString();
+			new Setting(this.contentEl)
+				.setName(`Last sync: ${when}${lastRun.scheduled ? " (scheduled)" : ""}`)
+				.setDesc(lastRun.summary);
+		}
+	}
+
+	private async loadDataSources(): Promise<DataSourceObjectResponse[]> {
+		const client = createNotionClient(this.plugin.settings.apiKey);
+		const database = (await notionRequest(() =>
+			client.databases.retrieve({ database_id: this.db.databaseId })
+		)) as DatabaseObjectResponse;
+		if (!database.data_sources || database.data_sources.length === 0) {
+			throw new Error("This database has no data sources.");
+		}
+
+		const dataSources: DataSourceObjectResponse[] = [];
+		for (const reference of database.data_sources) {
+			dataSources.push(
+				(await notionRequest(() =>
+					client.dataSources.retrieve({ data_source_id: reference.id })
+				)) as DataSourceObjectResponse
+			);
+		}
+		return dataSources;
+	}
+
+	// Picks which data sources sync; unset means all of them, so new ones
+	// added in Notion are picked up
+	private renderDataSources(dataSources: DataSourceObjectResponse[]): void {
+		const settings = this.plugin.settings.databaseSettings[this.db.databaseId] ?? {};
+		const selected = new Set(
+			settings.dataSources ?? dataSources.map((dataSource) => dataSource.id)
+		);
+
+		for (const dataSource of dataSources) {
+			new Setting(this.contentEl)
+				.setName(dataSourceName(dataSource))
+				.setDesc("Entries get a view of their own in the database's .base file.")
+				.addToggle((toggle) =>
+					toggle.setValue(selected.has(dataSource.id)).onChange(async (value) => {
+						if (!value && selected.size === 1) {
+							new Notice("Notion sync: At least one data source has to sync.");
+							toggle.setValue(true);
+							return;
+						}
+						if (value) selected.add(dataSource.id);
+						else selected.delete(dataSource.id);
+						const all = dataSources.every((source) => selected.has(source.id));
+						await this.updateDatabaseSettings({
+							dataSources: all ? undefined : Array.from(selected),
+						});
+					})
+				);
+		}
+	}
+
+	private renderProperty(config: PropertyConfig): void {
+		const mapping = this.getMapping(config.id);
+		const setting = new Setting(this.contentEl)
+			.setName(config.name)
+			.setDesc(config.type.replace(/_/g, " "));
+
+		setting.addText((text) =>
+			text
+				.setPlaceholder(config.name)
+				.setValue(mapping.key ?? "")
+				.onChange(async (value) => {
+					await this.updateMapping(config.id, { key: value.trim() || undefined });
+				})
+		);
+
+		if (LIST_TARGET_TYPES.has(config.type)) {
+			setting.addDropdown((dropdown) =>
+				dropdown
+					.addOption("", "Own property")
+					.addOption("tags", "Tags")
+					.addOption("aliases", "Aliases")
+					.setValue(mapping.target ?? "")
+					.onChange(async (value) => {
+						await this.updateMapping(config.id, {
+							target: value === "tags" || value === "aliases" ? value : undefined,
+						});
+					})
+			);
+		} else if (config.type === "date") {
+			setting.addDropdown((dropdown) =>
+				dropdown
+					.addOption("", "Single value")
+					.addOption("split", "Split start/end")
+					.setValue(mapping.splitDate ? "split" : "")
+					.onChange(async (value) => {
+						await this.updateMapping(config.id, {
+							splitDate: value === "split" ? true : undefined,
+						});
+					})
+			);
+		} else if (config.type === "people") {
+			setting.addDropdown((dropdown) =>
+				dropdown
+					.addOption("name", "Name")
+					.addOption("email", "Email")
+					.addOption("id", "User ID")
+					.addOption("link", "Wikilink")
+					.setValue(mapping.peopleFormat ?? "name")
+					.onChange(async (value) => {
+						await this.updateMapping(config.id, {
+							peopleFormat: value === "name" ? undefined : (value as PeopleFormat),
+						});
+					})
+			);
+		}
+
+		setting.addToggle((toggle) =>
+			toggle
+				.setTooltip("Include in frontmatter")
+				.setValue(!mapping.exclude)
+				.onChange(async (value) => {
+					await this.updateMapping(config.id, { exclude: value ? undefined : true });
+				})
+		);
+	}
+
+	private async updateDatabaseSettings(change: Partial<DatabaseSettings>): Promise<void> {
+		const all = this.plugin.settings.databaseSettings;
+		const merged = pruneUndefined({ ...all[this.db.databaseId], ...change });
+		if (Object.keys(merged).length > 0) {
+			all[this.db.databaseId] = merged;
+		} else {
+			delete all[this.db.databaseId];
+		}
+		await this.plugin.saveSettings();
+	}
+
+	private getMapping(propertyId: string): PropertyMapping {
+		return this.plugin.settings.propertyMappings[this.db.databaseId]?.[propertyId] ?? {};
+	}
+
+	/**
+	 * Merges a change into the stored mapping. Unset fields are dropped, and
+	 * empty mappings are removed so settings only hold real customizations.
+	 */
+	private async updateMapping(
+		propertyId: string,
+		change: Partial<PropertyMapping>
+	): Promise<void> {
+		const all = this.plugin.settings.propertyMappings;
+		const dbMappings = all[this.db.databaseId] ?? {};
+		const merged = pruneUndefined({ ...dbMappings[propertyId], ...change });
+		if (Object.keys(merged).length > 0) {
+			dbMappings[propertyId] = merged;
+		} else {
+			delete dbMappings[propertyId];
+		}
+
+		if (Object.keys(dbMappings).length > 0) {
+			all[this.db.databaseId] = dbMappings;
+		} else {
+			delete all[this.db.databaseId];
+		}
+		await this.plugin.saveSettings();
+	}
+}
+
+function dataSourceName(dataSource: DataSourceObjectResponse): string {
+	return dataSource.title.map((text) => text.plain_text).join("") || "Untitled data source";
+}
+
+/**
+ * Parses a JSON setting of the given shape. Empty text clears the setting
+ * (undefined); anything else that doesn't parse to that shape is null.
+ */
+export function parseJsonSetting(value: string, shape: "object" | "array"): unknown {
+	if (value.trim() === "") return undefined;
+	try {
+		const parsed: unknown = JSON.parse(value);
+		const isArray = Array.isArray(parsed);
+		if (typeof parsed !== "object" || parsed === null || isArray !== (shape === "array")) {
+			return null;
+		}
+		return parsed;
+	} catch {
+		return null;
+	}
+}
+
+function pruneUndefined<T extends object>(value: T): T {
+	const result = { ...value } as Record<string, unknown>;
+	for (const key of Object.keys(result)) {
+		if (result[key] === undefined) delete result[key];
+	}
+	return result as T;
+}
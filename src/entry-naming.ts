@@ -0,0 +1,185 @@
+import { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { moment } from "obsidian";
+import { CollisionSuffix } from "./types";
+import { getPageTitle } from "./block-converter";
+import { convertPropertyValue, formatUniqueId } from "./property-converter";
+
+export const DEFAULT_FILE_NAME_TEMPLATE = "{{title}}";
+
+export interface EntryNamingOptions {
+	suffix: CollisionSuffix;
+	// e.g. "{{unique_id}} {{title}}"; defaults to DEFAULT_FILE_NAME_TEMPLATE
+	fileNameTemplate?: string;
+	// e.g. "{{Status}}" or "{{created_time:YYYY/MM}}"; empty keeps entries flat
+	folderTemplate?: string;
+}
+
+// {{name}} or {{name:format}}
+export const PLACEHOLDER_PATTERN = /\{\{\s*([^}:]+?)\s*(?::([^}]+))?\}\}/g;
+
+/**
+ * Picks a path (relative to the database folder, without extension) for
+ * every entry of a database. Entries that map to the same path get a suffix,
+ * and a path an entry already holds locally is kept whenever it is still
+ * valid for it, so names stay put across syncs instead of flipping between
+ * entries.
+ *
+ * `currentPaths` maps entry IDs to the relative path of their local note.
+ * `reservedPaths` holds lowercased paths of notes whose entries aren't being
+ * assigned, such as those an incremental sync didn't query; an entry mapping
+ * onto one of them is suffixed.
+ */
+export function assignEntryPaths(
+	entries: PageObjectResponse[],
+	options: EntryNamingOptions,
+	currentPaths: Map<string, string> = new Map(),
+	reservedPaths: Set<string> = new Set()
+): Map<string, string> {
+	const basePaths = new Map<string, string>();
+	const groups = new Map<string, PageObjectResponse[]>();
+	for (const entry of entries) {
+		const path = basePath(entry, options);
+		basePaths.set(entry.id, path);
+
+		// Case-insensitive, since most file systems are
+		const key = path.toLowerCase();
+		const group = groups.get(key);
+		if (group) group.push(entry);
+		else groups.set(key, [entry]);
+	}
+
+	const suffixed = (entry: PageObjectResponse) =>
+		`${basePaths.get(entry.id)} (${collisionSuffix(entry, options.suffix)})`;
+
+	const paths = new Map<string, string>();
+	for (const [key, group] of groups) {
+		if (reservedPaths.has(key)) {
+			for (const entry of group) paths.set(entry.id, suffixed(entry));
+			continue;
+		}
+		if (group.length === 1) {
+			const entry = group[0];
+			const current = currentPaths.get(entry.id);
+			paths.set(entry.id, current === suffixed(entry) ? current : (basePaths.get(entry.id) as string));
+			continue;
+		}
+
+		// One entry keeps the plain path: whoever holds it already, else the
+		// oldest. Everyone else is suffixed.
+		const plain = (basePaths.get(group[0].id) as string).toLowerCase();
+		const sorted = [...group].sort(
+			(a, b) => a.created_time.localeCompare(b.created_time) || a.id.localeCompare(b.id)
+		);
+		const owner =
+			sorted.find((e) => currentPaths.get(e.id)?.toLowerCase() === plain) ??
+			sorted.find((e) => currentPaths.get(e.id) !== suffixed(e)) ??
+			sorted[0];
+
+		for (const entry of group) {
+			paths.set(entry.id, entry === owner ? (basePaths.get(entry.id) as string) : suffixed(entry));
+		}
+	}
+
+	return paths;
+}
+
+/**
+ * The file name part of an assigned path, for telling whether a note was
+ * renamed. Undefined when names come from a custom template, since those
+ * can't be mapped back to a title.
+ */
+export function titleFileName(
+	path: string | undefined,
+	options: EntryNamingOptions
+): string | undefined {
+	const template = options.fileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE;
+	if (!path || template !== DEFAULT_FILE_NAME_TEMPLATE) return undefined;
+	return path.split("/").pop();
+}
+
+export function sanitizeFileName(name: string): string {
+	return name.replace(/[\\/:*?"<>|]/g, "-").trim() || "Untitled";
+}
+
+function basePath(entry: PageObjectResponse, options: EntryNamingOptions): string {
+	const name = sanitizeFileName(
+		renderTemplate(options.fileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE, entry, false)
+	);
+	if (!options.folderTemplate) return name;
+
+	// Empty segments (e.g. an unset Status) are dropped, so those entries
+	// land one level up instead of in a blank-named folder
+	const folder = renderTemplate(options.folderTemplate, entry, true)
+		.split("/")
+		.map((segment) => segment.trim())
+		.filter((segment) => segment.length > 0)
+		.join("/");
+	return folder ? `${folder}/${name}` : name;
+}
+
+/**
+ * Fills `{{placeholder}}`s from an entry: `title`, `id`, `short_id`,
+ * `unique_id`, `created_time`, `last_edited_time` or any property by name.
+ * Dates take an optional moment format, as in `{{Due:YYYY-MM}}`. Only a
+ * format may introduce `/`, and only where `allowSlash` is set.
+ */
+function renderTemplate(
+	template: string,
+	entry: PageObjectResponse,
+	allowSlash: boolean
+): string {
+	return template.replace(PLACEHOLDER_PATTERN, (_match, name: string, format?: string) => {
+		const raw = templateValue(entry, name);
+		const value = format && raw ? moment(raw).format(format) : raw;
+		const unsafe = format && allowSlash ? /[\\:*?"<>|]/g : /[\\/:*?"<>|]/g;
+		return value.replace(unsafe, "-");
+	});
+}
+
+function templateValue(entry: PageObjectResponse, name: string): string {
+	switch (name) {
+		case "title":
+			return getPageTitle(entry);
+		case "id":
+			return entry.id;
+		case "short_id":
+			return shortId(entry);
+		case "unique_id":
+			return uniqueId(entry) ?? "";
+		case "created_time":
+			return entry.created_time;
+		case "last_edited_time":
+			return entry.last_edited_time;
+	}
+
+	const prop = entry.properties[name];
+	if (!prop) return "";
+	// Date ranges use their start, so they can be formatted
+	if (prop.type === "date") return prop.date?.start ?? "";
+
+	const value = convertPropertyValue(prop, () => null);
+	if (value === null || value === undefined) return "";
+	return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function collisionSuffix(entry: PageObjectResponse, suffix: CollisionSuffix): string {
+	if (suffix === "unique-id") {
+		const id = uniqueId(entry);
+		if (id) return sanitizeFileName(id);
+	}
+	return shortId(entry);
+}
+
+// Stable for the page's lifetime
+function shortId(entry: PageObjectResponse): string {
+	return entry.id.replace(/-/g, "").slice(0, 8);
+}
+
+function uniqueId(entry: PageObjectResponse): string | null {
+	for (const prop of Object.values(entry.properties)) {
+		if (prop.type === "unique_id") {
+			return formatUniqueId(prop.unique_id);
+		}
+	}
+	return null;
+}
@@ -1,49 +1,74 @@
 import { App, Modal, Notice, Setting } from "obsidian";
+import { parseJsonSetting } from "./database-settings-modal";
+import { hasDatabaseFolder } from "./sync-registry";
+import { EntryFilter, EntrySorts, FrozenDatabase, ImportCheckpoint } from "./types";
 
 export interface FreezeModalResult {
 	notionInput: string;
 	outputFolder: string;
-}
-
-export interface FrozenDatabase {
-	databaseId: string;
-	title: string;
-	folderPath: string;
-	entryCount: number;
+	// Query settings for a database import; ignored for pages
+	filter?: EntryFilter;
+	sorts?: EntrySorts;
 }
 
 export class FreezeModal extends Modal {
 	private notionInput = "";
 	private outputFolder: string;
+	private filterInput = "";
+	private sortsInput = "";
+	private databases: FrozenDatabase[];
+	private interrupted: ImportCheckpoint[];
 	private onFreeze: (result: FreezeModalResult) => void;
 	private onResync: (db: FrozenDatabase) => void;
+	private onFullResync: (db: FrozenDatabase) => void;
+	private onPreview: (db: FrozenDatabase) => void;
+	private onPush: (db: FrozenDatabase) => void;
+	private onResume: (checkpoint: ImportCheckpoint) => void;
+	private onDiscard: (checkpoint: ImportCheckpoint) => void;
+	private onForget: (db: FrozenDatabase) => void;
 
 	constructor(
 		app: App,
 		defaultFolder: string,
+		databases: FrozenDatabase[],
+		interrupted: ImportCheckpoint[],
 		onFreeze: (result: FreezeModalResult) => void,
-		onResync: (db: FrozenDatabase) => void
+		onResync: (db: FrozenDatabase) => void,
+		onFullResync: (db: FrozenDatabase) => void,
+		onPreview: (db: FrozenDatabase) => void,
+		onPush: (db: FrozenDatabase) => void,
+		onResume: (checkpoint: ImportCheckpoint) => void,
+		onDiscard: (checkpoint: ImportCheckpoint) => void,
+		onForget: (db: FrozenDatabase) => void
 	) {
 		super(app);
 		this.outputFolder = defaultFolder;
+		this.databases = databases;
+		this.interrupted = interrupted;
 		this.onFreeze = onFreeze;
 		this.onResync = onResync;
+		this.onFullResync = onFullResync;
+		this.onPreview = onPreview;
+		this.onPush = onPush;
+		this.onResume = onResume;
+		this.onDiscard = onDiscard;
+		this.onForget = onForget;
 	}
 
 	onOpen(): void {
 		const { contentEl } = this;
 
 		// --- Freeze section ---
-		contentEl.createEl("h2", { text: "Sync Notion database" });
+		contentEl.createEl("h2", { text: "Sync Notion page or database" });
 
 		new Setting(contentEl)
-			.setName("Database ID")
+			.setName("Page or database ID")
 			.setDesc(
-				"Paste a Notion database ID, UUID, or share URL."
+				"Paste a Notion page or database ID, UUID, or share URL."
 			)
 			.addText((text) =>
 				text
-					.setPlaceholder("https://notion.so/... or database UUID")
+					.setPlaceholder("https://notion.so/... or page/database UUID")
 					.onChange((value) => {
 						this.notionInput = value.trim();
 					})
@@ -63,22 +88,101 @@ export class FreezeModal extends Modal {
 					})
 			);
 
+		new Setting(contentEl)
+			.setName("Filter")
+			.setDesc(
+				"Databases only: import entries matching this Notion API filter, as JSON. " +
+				"Leave empty to import every entry."
+			)
+			.addTextArea((text) => {
+				text.inputEl.rows = 4;
+				text
+					.setPlaceholder('{ "property": "Status", "status": { "does_not_equal": "Archived" } }')
+					.onChange((value) => {
+						this.filterInput = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Sorts")
+			.setDesc("Databases only: order entries are imported in, as a JSON array of Notion API sorts.")
+			.addTextArea((text) => {
+				text.inputEl.rows = 2;
+				text
+					.setPlaceholder('[{ "timestamp": "created_time", "direction": "descending" }]')
+					.onChange((value) => {
+						this.sortsInput = value;
+					});
+			});
+
 		new Setting(contentEl).addButton((btn) =>
 			btn
 				.setButtonText("Sync")
 				.setCta()
 				.onClick(() => {
 					if (!this.notionInput) return;
+					const filter = parseJsonSetting(this.filterInput, "object");
+					const sorts = parseJsonSetting(this.sortsInput, "array");
+					if (filter === null || sorts === null) {
+						new Notice(
+							filter === null
+								? "Notion sync: the filter is not a valid JSON object."
+								: "Notion sync: the sorts are not a valid JSON array."
+						);
+						return;
+					}
 					this.close();
 					this.onFreeze({
 						notionInput: this.notionInput,
 						outputFolder: this.outputFolder,
+						filter: filter as EntryFilter | undefined,
+						sorts: sorts as EntrySorts | undefined,
 					});
 				})
 		);
 
+		// --- Unfinished imports section ---
+		if (this.interrupted.length > 0) {
+			contentEl.createEl("hr");
+			contentEl.createEl("h3", { text: "Unfinished imports" });
+
+			for (const checkpoint of this.interrupted) {
+				const progress = checkpoint.fileNames
+					? `${checkpoint.written.length} of ${Object.keys(checkpoint.fileNames).length} entries written`
+					: `${checkpoint.queried.length} entries queried`;
+				new Setting(contentEl)
+					.setName(checkpoint.title)
+					.setDesc(
+						[
+							checkpoint.folderPath,
+							progress,
+							`started ${new Date(checkpoint.startedAt).toLocaleString()}`,
+						].join("  \u00b7  ")
+					)
+					.addButton((btn) =>
+						btn
+							.setButtonText("Resume")
+							.setCta()
+							.setTooltip("Continue where the import stopped")
+							.onClick(() => {
+								this.close();
+								this.onResume(checkpoint);
+							})
+					)
+					.addButton((btn) =>
+						btn
+							.setButtonText("Discard")
+							.setTooltip("Forget where the import stopped; notes written so far are kept")
+							.onClick(() => {
+								this.close();
+								this.onDiscard(checkpoint);
+							})
+					);
+			}
+		}
+
 		// --- Frozen databases section ---
-		const databases = this.scanFrozenDatabases();
+		const { databases } = this;
 		if (databases.length > 0) {
 			contentEl.createEl("hr");
 			contentEl.createEl("h3", { text: "Synced databases" });
@@ -87,7 +191,14 @@ export class FreezeModal extends Modal {
 				new Setting(contentEl)
 					.setName(db.title)
 					.setDesc(
-						`${db.folderPath}  \u00b7  ${db.entryCount} ${db.entryCount === 1 ? "entry" : "entries"}`
+						[
+							hasDatabaseFolder(this.app, db) ? db.folderPath : `${db.folderPath} (missing)`,
+							`${db.entryCount} ${db.entryCount === 1 ? "entry" : "entries"}`,
+							db.lastSync
+								? `synced ${new Date(db.lastSync.finishedAt).toLocaleString()}` +
+									(db.lastSync.ok ? "" : " with errors")
+								: "",
+						].filter((part) => part.length > 0).join("  \u00b7  ")
 					)
 					.addButton((btn) =>
 						btn.setButtonText("View").onClick(() => {
@@ -100,6 +211,42 @@ export class FreezeModal extends Modal {
 							this.close();
 							this.onResync(db);
 						})
+					)
+					.addButton((btn) =>
+						btn
+							.setButtonText("Full re-sync")
+							.setTooltip("Query every entry, to find entries deleted in Notion now")
+							.onClick(() => {
+								this.close();
+								this.onFullResync(db);
+							})
+					)
+					.addButton((btn) =>
+						btn
+							.setButtonText("Preview")
+							.setTooltip("List what a re-sync would change and pick what to apply")
+							.onClick(() => {
+								this.close();
+								this.onPreview(db);
+							})
+					)
+					.addButton((btn) =>
+						btn
+							.setButtonText("Push")
+							.setTooltip("Send property edits made in Obsidian to Notion")
+							.onClick(() => {
+								this.close();
+								this.onPush(db);
+							})
+					)
+					.addButton((btn) =>
+						btn
+							.setButtonText("Forget")
+							.setTooltip("Stop syncing this database; its notes are kept")
+							.onClick(() => {
+								this.close();
+								this.onForget(db);
+							})
 					);
 			}
 		}
@@ -128,36 +275,4 @@ export class FreezeModal extends Modal {
 			new Notice(`Notion sync: No .base file found in ${db.folderPath}`);
 		}
 	}
-
-	private scanFrozenDatabases(): FrozenDatabase[] {
-		const dbMap = new Map<string, FrozenDatabase>();
-
-		for (const file of this.app.vault.getMarkdownFiles()) {
-			const cache = this.app.metadataCache.getFileCache(file);
-			const dbId = cache?.frontmatter?.["notion-database-id"];
-			if (!dbId) continue;
-
-			const existing = dbMap.get(dbId);
-			if (existing) {
-				existing.entryCount++;
-			} else {
-				const folderPath = file.parent?.path || "";
-				dbMap.set(dbId, {
-					databaseId: dbId,
-					title: folderName(folderPath),
-					folderPath,
-					entryCount: 1,
-				});
-			}
-		}
-
-		return Array.from(dbMap.values()).sort((a, b) =>
-			a.title.localeCompare(b.title)
-		);
-	}
-}
-
-function folderName(path: string): string {
-	const idx = path.lastIndexOf("/");
-	return idx >= 0 ? path.slice(idx + 1) : path || "Untitled";
 }
@@ -0,0 +1,222 @@
+import { App, TFile, TFolder } from "obsidian";
+import { findDatabaseFolder } from "./database-folder";
+import { keepContentHash, restampContentHash } from "./local-edits";
+
+// [[notion-id: <uuid>]] or [[notion-id: <uuid>|Title]], as emitted by the block converter
+const PLACEHOLDER_PATTERN = /\[\[notion-id: ([0-9a-f-]{32,36})(?:\|([^\]]*))?\]\]/gi;
+
+// Fallback links written for targets that were not in the vault at the time
+const FALLBACK_PATTERN = /\[([^\]]*)\]\(https:\/\/www\.notion\.so\/([0-9a-f]{32})\)/gi;
+
+/**
+ * Relation IDs whose target isn't in the vault yet are kept under
+ * `"<property> (unresolved)"` beside the property's list of wikilinks.
+ */
+export const UNRESOLVED_RELATION_SUFFIX = " (unresolved)";
+
+export interface LinkResolveResult {
+	filesChanged: number;
+	resolved: number;
+	unresolved: number;
+}
+
+/**
+ * Rewrites Notion link placeholders in the notes the plugin wrote, those
+ * with a `notion-id`. Placeholders whose target has been synced become
+ * wikilinks; the rest become a readable `[Title](notion url)` fallback,
+ * which a later pass upgrades to a wikilink once the target shows up.
+ * The link text is kept as the wikilink's alias.
+ */
+export async function resolveNotionLinks(app: App): Promise<LinkResolveResult> {
+	const targets = buildNotionTargetIndex(app);
+	const result: LinkResolveResult = { filesChanged: 0, resolved: 0, unresolved: 0 };
+
+	for (const file of app.vault.getMarkdownFiles()) {
+		// Notes the user wrote, and the links in them, are left alone
+		if (!app.metadataCache.getFileCache(file)?.frontmatter?.["notion-id"]) continue;
+
+		const frontmatterChanged = await resolveRelationFields(app, file, targets, result);
+		if (frontmatterChanged) result.filesChanged++;
+
+		const cached = await app.vault.cachedRead(file);
+		if (!cached.includes("[[notion-id:") && !cached.includes("](https://www.notion.so/")) {
+			continue;
+		}
+
+		const content = await app.vault.read(file);
+		const updated = rewriteNotionLinks(app, content, file, targets, result);
+
+		if (updated !== content) {
+			await app.vault.modify(file, restampContentHash(content, updated));
+			if (!frontmatterChanged) result.filesChanged++;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Rewrites the Notion link placeholders and fallback links in one note's
+ * text, as `resolveNotionLinks` does for the whole vault.
+ */
+export function rewriteNotionLinks(
+	app: App,
+	text: string,
+	file: TFile,
+	targets: Map<string, TFile>,
+	result: LinkResolveResult = { filesChanged: 0, resolved: 0, unresolved: 0 }
+): string {
+	return text
+		.replace(PLACEHOLDER_PATTERN, (_match, id: string, title?: string) => {
+			const target = targets.get(toHexId(id));
+			if (target) {
+				result.resolved++;
+				return wikilinkTo(app, target, file, title);
+			}
+			result.unresolved++;
+			return fallbackLink(id, title);
+		})
+		.replace(FALLBACK_PATTERN, (match, title: string, hex: string) => {
+			const target = targets.get(hex.toLowerCase());
+			if (!target) return match;
+			result.resolved++;
+			return wikilinkTo(app, target, file, title);
+		});
+}
+
+/**
+ * Moves relation IDs that now have a synced target out of the unresolved
+ * field and into the property's wikilink list. Returns whether the
+ * frontmatter was rewritten.
+ */
+async function resolveRelationFields(
+	app: App,
+	file: TFile,
+	targets: Map<string, TFile>,
+	result: LinkResolveResult
+): Promise<boolean> {
+	const fm = app.metadataCache.getFileCache(file)?.frontmatter;
+	if (!fm) return false;
+
+	const resolvable = Object.entries(fm).some(
+		([key, ids]) =>
+			key.endsWith(UNRESOLVED_RELATION_SUFFIX) &&
+			Array.isArray(ids) &&
+			ids.some((id) => targets.has(toHexId(String(id))))
+	);
+	if (!resolvable) return false;
+
+	await keepContentHash(app, file, () =>
+		app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			for (const key of Object.keys(frontmatter)) {
+				const ids = frontmatter[key];
+				if (!key.endsWith(UNRESOLVED_RELATION_SUFFIX) || !Array.isArray(ids)) continue;
+
+				const field = key.slice(0, -UNRESOLVED_RELATION_SUFFIX.length);
+				const current = frontmatter[field];
+				const links: unknown[] = Array.isArray(current) ? current : [];
+				const remaining: unknown[] = [];
+				for (const id of ids) {
+					const target = targets.get(toHexId(String(id)));
+					if (target) {
+						links.push(wikilinkTo(app, target, file));
+						result.resolved++;
+					} else {
+						remaining.push(id);
+					}
+				}
+
+				frontmatter[field] = links;
+				if (remaining.length > 0) {
+					frontmatter[key] = remaining;
+				} else {
+					delete frontmatter[key];
+				}
+			}
+		})
+	);
+	return true;
+}
+
+/**
+ * Maps Notion IDs (dashless, lowercase) to the vault file that represents
+ * them: the note for a page, the `.base` file for a synced database.
+ */
+export function buildNotionTargetIndex(app: App): Map<string, TFile> {
+	const targets = new Map<string, TFile>();
+	const databases = new Map<string, TFile>();
+
+	for (const file of app.vault.getMarkdownFiles()) {
+		const fm = app.metadataCache.getFileCache(file)?.frontmatter;
+		const notionId = fm?.["notion-id"];
+		if (typeof notionId === "string") {
+			targets.set(toHexId(notionId), file);
+		}
+
+		const dbId = fm?.["notion-database-id"];
+		if (typeof dbId === "string" && !databases.has(toHexId(dbId))) {
+			// Entries may sit in template subfolders below the .base file
+			const folder = app.vault.getAbstractFileByPath(findDatabaseFolder(file) ?? "");
+			const baseFile = folder instanceof TFolder
+				? folder.children.find((f): f is TFile => f instanceof TFile && f.extension === "base")
+				: undefined;
+			if (baseFile) databases.set(toHexId(dbId), baseFile);
+		}
+	}
+
+	for (const [id, file] of databases) {
+		if (!targets.has(id)) targets.set(id, file);
+	}
+
+	return targets;
+}
+
+// The alias is dropped when it is just the target's name
+function wikilinkTo(app: App, target: TFile, source: TFile, alias?: string): string {
+	const linktext = app.metadataCache.fileToLinktext(target, source.path);
+	const text = alias?.replace(/[[\]|]/g, "").trim();
+	return text && text !== target.basename
+		? `[[${linktext}|${text}]]`
+		: `[[${linktext}]]`;
+}
+
+function fallbackLink(id: string, title: string | undefined): string {
+	const text = (title || "Notion page").replace(/[[\]]/g, "");
+	return `[${text}](https://www.notion.so/${toHexId(id)})`;
+}
+
+/**
+ * Maps wikilink targets, as written in `sourcePath`, to the `notion-id` of
+ * the note they point to.
+ */
+export function notionIdResolver(
+	app: App,
+	sourcePath: string
+): (linkpath: string) => string | null {
+	return (linkpath) => {
+		const target = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+		const id = target && app.metadataCache.getFileCache(target)?.frontmatter?.["notion-id"];
+		return typeof id === "string" ? id : null;
+	};
+}
+
+export function toHexId(id: string): string {
+	return id.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * Resolves once the metadata cache has indexed pending changes, so notes
+ * written moments ago are visible to the link index. "resolved" only fires
+ * when there was something to index, hence the timeout.
+ */
+export function waitForMetadataCache(app: App, timeoutMs = 2000): Promise<void> {
+	return new Promise((resolve) => {
+		const finish = () => {
+			app.metadataCache.offref(ref);
+			window.clearTimeout(timer);
+			resolve();
+		};
+		const ref = app.metadataCache.on("resolved", finish);
+		const timer = window.setTimeout(finish, timeoutMs);
+	});
+}
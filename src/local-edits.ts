@@ -0,0 +1,206 @@
+import { App, normalizePath, TFile } from "obsidian";
+import { ConflictPolicy } from "./types";
+import { hashString } from "./attachments";
+
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = "conflict-copy";
+
+// Frontmatter field holding the hash of the note as the sync last wrote it
+const HASH_KEY = "notion-content-hash";
+const HASH_LINE_PATTERN = /^notion-content-hash: ["']?([0-9a-f]+)["']?\n/m;
+
+// Text between these comments is carried over when the sync rewrites a note
+export const LOCAL_REGION_START = "%% notion-local %%";
+export const LOCAL_REGION_END = "%% /notion-local %%";
+
+interface LocalRegion {
+	// Last non-empty body line before the region, or null at the body's start
+	anchor: string | null;
+	lines: string[];
+}
+
+/**
+ * Adds the hash of `content` to its frontmatter, replacing any earlier one,
+ * so a later sync can tell whether the note was edited since.
+ */
+export function withContentHash(content: string): string {
+	const { rest } = splitContentHash(content);
+	const line = `${HASH_KEY}: "${hashNoteContent(rest)}"`;
+	if (rest.startsWith("---\n")) {
+		const end = rest.indexOf("\n---", 3);
+		if (end !== -1) return rest.slice(0, end) + "\n" + line + rest.slice(end);
+	}
+	return `---\n${line}\n---\n${rest}`;
+}
+
+/**
+ * Whether a note differs from what the sync last wrote. Notes written
+ * before hashes were recorded carry none and count as unedited.
+ */
+export function isLocallyEdited(content: string): boolean {
+	const { rest, hash } = splitContentHash(content);
+	return hash !== null && hash !== hashNoteContent(rest);
+}
+
+/**
+ * Re-stamps the hash on a note the plugin changed outside of a sync, e.g.
+ * to resolve links, so the change isn't taken for a local edit. Notes that
+ * were already edited, or never hashed, are returned as they are.
+ */
+export function restampContentHash(before: string, after: string): string {
+	return matchesContentHash(before) ? withContentHash(after) : after;
+}
+
+/**
+ * Runs a change made through the file manager, such as `processFrontMatter`,
+ * and re-stamps the hash afterwards like `restampContentHash`.
+ */
+export async function keepContentHash(
+	app: App,
+	file: TFile,
+	change: () => Promise<void>
+): Promise<void> {
+	const before = await app.vault.read(file);
+	await change();
+	if (matchesContentHash(before)) {
+		await app.vault.process(file, withContentHash);
+	}
+}
+
+/**
+ * Renames a file through the file manager, which rewrites links to it in
+ * other notes when Obsidian is set to, frontmatter relations included. The
+ * notes it rewrites get their hash re-stamped like `restampContentHash`.
+ */
+export async function renameKeepingHashes(app: App, file: TFile, newPath: string): Promise<void> {
+	const linking = new Map<TFile, string>();
+	for (const [source, targets] of Object.entries(app.metadataCache.resolvedLinks)) {
+		if (!(file.path in targets) || source === file.path) continue;
+		const note = app.vault.getAbstractFileByPath(source);
+		if (note instanceof TFile) linking.set(note, await app.vault.read(note));
+	}
+
+	await app.fileManager.renameFile(file, newPath);
+
+	for (const [note, before] of linking) {
+		if ((await app.vault.read(note)) === before) continue;
+		await app.vault.process(note, (after) => restampContentHash(before, after));
+	}
+}
+
+/**
+ * Saves the local version of a note beside it as `<name>.conflict.md` before
+ * the sync overwrites it. The copy's `notion-id` is renamed so it isn't
+ * treated as a second copy of the entry. Returns the copy's path.
+ */
+export async function writeConflictCopy(
+	app: App,
+	file: TFile,
+	content: string
+): Promise<string> {
+	const folder = file.parent?.path ?? "";
+	let path = normalizePath(`${folder}/${file.basename}.conflict.md`);
+	for (let n = 2; app.vault.getAbstractFileByPath(path); n++) {
+		path = normalizePath(`${folder}/${file.basename}.conflict ${n}.md`);
+	}
+
+	const { rest } = splitContentHash(content);
+	const end = rest.startsWith("---\n") ? rest.indexOf("\n---", 3) : -1;
+	const copy = end === -1
+		? rest
+		: rest.slice(0, end).replace(/^notion-id:/m, "notion-conflict-of:") + rest.slice(end);
+	await app.vault.create(path, copy);
+	return path;
+}
+
+/**
+ * Carries the local notes regions of `current` over into `incoming`. Each
+ * region goes back after the line it followed, or to the end of the note
+ * when that line is gone from the new version.
+ */
+export function keepLocalRegions(current: string, incoming: string): string {
+	const regions = findLocalRegions(splitBody(current.replace(/\r\n/g, "\n"))[1]);
+	if (regions.length === 0) return incoming;
+
+	const [frontmatter, body] = splitBody(incoming);
+	const lines = body.split("\n");
+	let cursor = 0;
+	for (const region of regions) {
+		if (region.anchor === null) {
+			lines.splice(cursor, 0, ...region.lines, "");
+			cursor += region.lines.length + 1;
+			continue;
+		}
+
+		let at = -1;
+		for (let i = cursor; i < lines.length; i++) {
+			if (lines[i].trim() === region.anchor) {
+				at = i;
+				break;
+			}
+		}
+		if (at === -1) {
+			lines.push("", ...region.lines);
+			cursor = lines.length;
+		} else {
+			lines.splice(at + 1, 0, "", ...region.lines);
+			cursor = at + 2 + region.lines.length;
+		}
+	}
+	return frontmatter + lines.join("\n");
+}
+
+// Whether a note carries a hash and is unchanged since it was recorded
+function matchesContentHash(content: string): boolean {
+	const { rest, hash } = splitContentHash(content);
+	return hash !== null && hash === hashNoteContent(rest);
+}
+
+function findLocalRegions(body: string): LocalRegion[] {
+	const regions: LocalRegion[] = [];
+	let anchor: string | null = null;
+	let region: string[] | null = null;
+	for (const line of body.split("\n")) {
+		if (region) {
+			region.push(line);
+			if (line.trim() === LOCAL_REGION_END) {
+				regions.push({ anchor, lines: region });
+				region = null;
+			}
+		} else if (line.trim() === LOCAL_REGION_START) {
+			region = [line];
+		} else if (line.trim() !== "") {
+			anchor = line.trim();
+		}
+	}
+	// An unclosed region runs to the end of the note
+	if (region) regions.push({ anchor, lines: region });
+	return regions;
+}
+
+// Splits a note into its frontmatter block, if any, and its body
+function splitBody(content: string): [string, string] {
+	if (!content.startsWith("---\n")) return ["", content];
+	const end = content.indexOf("\n---", 3);
+	if (end === -1) return ["", content];
+	const lineEnd = content.indexOf("\n", end + 4);
+	return lineEnd === -1
+		? [content, ""]
+		: [content.slice(0, lineEnd + 1), content.slice(lineEnd + 1)];
+}
+
+// Separates the hash field from the rest of the note
+function splitContentHash(content: string): { rest: string; hash: string | null } {
+	const normalized = content.replace(/\r\n/g, "\n");
+	const [frontmatter] = splitBody(normalized);
+	const match = frontmatter.match(HASH_LINE_PATTERN);
+	if (!match || match.index === undefined) return { rest: normalized, hash: null };
+	return {
+		rest: normalized.slice(0, match.index) + normalized.slice(match.index + match[0].length),
+		hash: match[1],
+	};
+}
+
+// Editors tend to add a final newline the sync never writes
+function hashNoteContent(content: string): string {
+	return hashString(content.replace(/\n+$/, ""));
+}
@@ -1,12 +1,84 @@
-import { addIcon, Notice, Plugin } from "obsidian";
-import { NotionFreezeSettings, DEFAULT_SETTINGS, DatabaseSyncResult } from "./types";
+import { Client } from "@notionhq/client";
+import {
+	DatabaseObjectResponse,
+	PageObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints";
+import { addIcon, Notice, Plugin, TFile, TFolder, WorkspaceLeaf } from "obsidian";
+import {
+	DatabaseSettings,
+	DatabaseSyncOptions,
+	NotionFreezeSettings,
+	DEFAULT_SETTINGS,
+	DatabaseSyncResult,
+	FrozenDatabase,
+	ImportCheckpoint,
+	PageWriteResult,
+	ProgressCallback,
+} from "./types";
 import { NotionFreezeSettingTab } from "./settings";
-import { FreezeModal, FrozenDatabase } from "./freeze-modal";
-import { createNotionClient, normalizeNotionId } from "./notion-client";
-import { freshDatabaseImport, refreshDatabase } from "./database-freezer";
+import { FreezeModal } from "./freeze-modal";
+import { ResyncPreviewModal } from "./resync-preview-modal";
+import { DataSourcePickerModal } from "./data-source-picker-modal";
+import { convertRichText } from "./block-converter";
+import {
+	createNotionClient,
+	normalizeNotionId,
+	notionRequest,
+	retrieveNotionTarget,
+} from "./notion-client";
+import {
+	applyRefreshPlan,
+	entryNamingOptions,
+	entryPath,
+	freshDatabaseImport,
+	isSyncCancelled,
+	planDatabaseRefresh,
+	pushDatabaseChanges,
+	refreshDatabase,
+} from "./database-freezer";
+import { findDatabaseFolder } from "./database-folder";
+import {
+	findSyncedFile,
+	refreshContentPushedEntry,
+	refreshPushedEntry,
+	writeDatabaseEntry,
+	writeStandalonePage,
+} from "./page-writer";
+import { createChildSyncHandler } from "./child-sync";
+import { assignEntryPaths, titleFileName } from "./entry-naming";
+import { pushEntryChanges } from "./property-push";
+import { pushPageContent } from "./content-push";
+import { createAttachmentHandler } from "./attachments";
+import {
+	buildNotionTargetIndex,
+	resolveNotionLinks,
+	waitForMetadataCache,
+} from "./link-resolver";
+import { createSyncQueue, isSyncDue, SCHEDULE_CHECK_MS } from "./sync-scheduler";
+import {
+	findRegisteredFolder,
+	forgetRegisteredFolders,
+	hasDatabaseFolder,
+	listDatabases,
+	moveRegisteredFolders,
+	scanSyncedDatabases,
+} from "./sync-registry";
+import { createSyncTracker } from "./sync-progress";
+import { SYNC_PROGRESS_VIEW, SyncProgressView } from "./sync-progress-view";
+
+interface SyncTracking {
+	signal: AbortSignal;
+	progress: ProgressCallback;
+}
 
 export default class NotionFreezePlugin extends Plugin {
 	settings: NotionFreezeSettings = DEFAULT_SETTINGS;
+	// Every database sync goes through here, so none of them overlap
+	private syncQueue = createSyncQueue();
+	// The running sync, for the status bar and progress view
+	private syncTracker = createSyncTracker();
+	// Set when the settings predate the sync registry
+	private needsRegistryScan = false;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
@@ -20,29 +92,306 @@ export default class NotionFreezePlugin extends Plugin {
 			`<path fill="currentColor" d="M4 54 8 42 16 52Z"/>` +
 			`<path fill="currentColor" d="M34 28v44h8V42l16 30h8V28h-8v30L42 28Z"/>`
 		);
-		this.addRibbonIcon("notion-db-sync", "Sync Notion database", () => {
+		this.addRibbonIcon("notion-db-sync", "Sync Notion page or database", () => {
 			this.openFreezeModal();
 		});
 
+		this.registerView(
+			SYNC_PROGRESS_VIEW,
+			(leaf) => new SyncProgressView(leaf, this.syncTracker)
+		);
+		const statusBar = this.addStatusBarItem();
+		statusBar.addClass("mod-clickable");
+		statusBar.setAttribute("aria-label", "Show Notion sync progress");
+		statusBar.onClickEvent(() => { void this.openProgressView(); });
+		statusBar.hide();
+		this.register(this.syncTracker.onChange(() => {
+			const activity = this.syncTracker.activity;
+			if (!activity || activity.state === "finished") {
+				statusBar.hide();
+				return;
+			}
+			statusBar.setText(
+				activity.total > 0
+					? `Notion: ${activity.current} / ${activity.total}`
+					: `Notion: ${activity.message}`
+			);
+			statusBar.show();
+		}));
+
 		this.addCommand({
 			id: "sync-notion",
-			name: "Sync Notion database",
+			name: "Sync Notion page or database",
 			callback: () => this.openFreezeModal(),
 		});
+
+		this.addCommand({
+			id: "resync-page",
+			name: "Re-sync this page",
+			editorCheckCallback: (checking, _editor, ctx) => {
+				const file = ctx.file;
+				if (!file) return false;
+				const notionId = this.app.metadataCache.getFileCache(file)
+					?.frontmatter?.["notion-id"];
+				if (typeof notionId !== "string") return false;
+				if (!checking) {
+					void this.queueSync(notionId, () => this.executePageResync(file, notionId));
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "push-page-properties",
+			name: "Push property changes to Notion",
+			editorCheckCallback: (checking, _editor, ctx) => {
+				const file = ctx.file;
+				if (!file) return false;
+				const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				const notionId = fm?.["notion-id"];
+				const databaseId = fm?.["notion-database-id"];
+				if (typeof notionId !== "string" || typeof databaseId !== "string") return false;
+				if (!checking) {
+					void this.queueSync(notionId, () =>
+						this.executePagePush(file, notionId, databaseId)
+					);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "push-page-content",
+			name: "Push note content to Notion",
+			editorCheckCallback: (checking, _editor, ctx) => {
+				const file = ctx.file;
+				if (!file) return false;
+				const notionId = this.app.metadataCache.getFileCache(file)
+					?.frontmatter?.["notion-id"];
+				if (typeof notionId !== "string") return false;
+				if (!checking) {
+					void this.queueSync(notionId, () => this.executeContentPush(file, notionId));
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "resync-all-databases",
+			name: "Re-sync all Notion databases",
+			callback: () => { void this.executeRefreshAll(); },
+		});
+
+		this.addCommand({
+			id: "show-sync-progress",
+			name: "Show Notion sync progress",
+			callback: () => { void this.openProgressView(); },
+		});
+
+		this.addCommand({
+			id: "cancel-sync",
+			name: "Cancel the running Notion sync",
+			checkCallback: (checking) => {
+				if (this.syncTracker.activity?.state !== "running") return false;
+				if (!checking) this.syncTracker.cancel();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "resolve-notion-links",
+			name: "Resolve Notion links in vault",
+			callback: () => {
+				void this.queueSync("resolve-notion-links", async () => {
+					try {
+						const result = await resolveNotionLinks(this.app);
+						new Notice(
+							`Notion sync: ${result.resolved} links resolved, ` +
+							`${result.unresolved} not in vault, ${result.filesChanged} files updated.`
+						);
+					} catch (err) {
+						notifySyncError(err);
+					}
+				});
+			},
+		});
+
+		// Keep the registry pointing at database folders the user moves
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				if (!(file instanceof TFolder)) return;
+				const moved = moveRegisteredFolders(this.settings.databases, oldPath, file.path);
+				if (moveRegisteredFolders(this.settings.imports, oldPath, file.path) || moved) {
+					void this.saveSettings();
+				}
+			})
+		);
+
+		// Deleting a database folder stops its syncs; importing it again starts afresh
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				if (!(file instanceof TFolder)) return;
+				const forgotten = forgetRegisteredFolders(this.settings.databases, file.path);
+				if (forgetRegisteredFolders(this.settings.imports, file.path) || forgotten) {
+					void this.saveSettings();
+				}
+			})
+		);
+
+		this.app.workspace.onLayoutReady(async () => {
+			if (this.needsRegistryScan) await this.seedRegistry();
+			this.offerToResumeImports();
+			this.runScheduledSyncs(true);
+			this.registerInterval(
+				window.setInterval(() => this.runScheduledSyncs(false), SCHEDULE_CHECK_MS)
+			);
+		});
 	}
 
 	async loadSettings(): Promise<void> {
+		const data = await this.loadData();
 		this.settings = Object.assign(
 			{},
 			DEFAULT_SETTINGS,
-			await this.loadData()
+			data
 		);
+		this.needsRegistryScan = !data?.databases;
 	}
 
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Rewrites `[[notion-id: …]]` placeholders vault-wide, so links written by
+	 * earlier syncs pick up targets that this sync just brought in.
+	 */
+	private async resolveLinksAfterSync(): Promise<void> {
+		await waitForMetadataCache(this.app);
+		await resolveNotionLinks(this.app);
+	}
+
+	/**
+	 * Registers databases synced before the registry existed, found from
+	 * their notes once the metadata cache is built.
+	 */
+	private async seedRegistry(): Promise<void> {
+		await waitForMetadataCache(this.app, 30000);
+		for (const db of scanSyncedDatabases(this.app)) {
+			if (!this.settings.databases[db.databaseId]) {
+				this.settings.databases[db.databaseId] = db;
+			}
+		}
+		this.needsRegistryScan = false;
+		await this.saveSettings();
+	}
+
+	// Points at imports left unfinished when Obsidian last closed
+	private offerToResumeImports(): void {
+		const count = Object.keys(this.settings.imports).length;
+		if (count === 0) return;
+		const notice = new Notice(
+			count === 1
+				? "Notion sync: an import didn't finish. Click to resume or discard it."
+				: `Notion sync: ${count} imports didn't finish. Click to resume or discard them.`,
+			0
+		);
+		notice.noticeEl.onClickEvent(() => {
+			notice.hide();
+			this.openFreezeModal();
+		});
+	}
+
+	/**
+	 * Queues a re-sync for every database whose schedule is due. Nothing is
+	 * queued while offline; the check runs again a minute later.
+	 */
+	private runScheduledSyncs(startup: boolean): void {
+		if (!this.settings.apiKey || !navigator.onLine) return;
+
+		const now = Date.now();
+		for (const db of listDatabases(this.settings.databases)) {
+			const settings = this.settings.databaseSettings[db.databaseId];
+			if (!settings?.schedule || this.syncQueue.has(db.databaseId)) continue;
+			if (!hasDatabaseFolder(this.app, db)) continue;
+			if (!isSyncDue(settings, db.lastSync, now, startup)) continue;
+			void this.syncQueue.run(db.databaseId, () => this.executeRefresh(db, true));
+		}
+	}
+
+	// Runs a sync after any that are already running or queued
+	private queueSync(key: string, task: () => Promise<void>): Promise<void> {
+		if (this.syncQueue.busy) {
+			new Notice("Notion sync: waiting for the running sync to finish...");
+		}
+		return this.syncQueue.run(key, task);
+	}
+
+	/**
+	 * Follows a sync in the status bar and progress view until `finish` is
+	 * called on the tracker. Cancelling aborts `controller`.
+	 */
+	private trackSync(title: string, controller = new AbortController()): SyncTracking {
+		return { signal: controller.signal, progress: this.syncTracker.start(title, controller) };
+	}
+
+	private async openProgressView(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(SYNC_PROGRESS_VIEW)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({ type: SYNC_PROGRESS_VIEW, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	private recordRun(databaseId: string, scheduled: boolean, ok: boolean, summary: string): void {
+		const db = this.settings.databases[databaseId];
+		if (!db) return;
+		db.lastSync = {
+			finishedAt: new Date().toISOString(),
+			scheduled,
+			ok,
+			summary,
+		};
+	}
+
+	/**
+	 * Re-syncs query only recently edited entries between full re-syncs;
+	 * `fullSync` makes this one query every entry regardless.
+	 */
+	private createSyncOptions(
+		client: Client,
+		signal?: AbortSignal,
+		fullSync = false
+	): DatabaseSyncOptions {
+		const attachments = this.settings.downloadAttachments
+			? createAttachmentHandler(this.app, {
+				folder: this.settings.attachmentsFolder,
+				includeExternal: this.settings.downloadExternalAttachments,
+			})
+			: undefined;
+		const shared: DatabaseSyncOptions = {
+			attachments,
+			propertyMappings: this.settings.propertyMappings,
+			collisionSuffix: this.settings.collisionSuffix,
+			databaseSettings: this.settings.databaseSettings,
+			fullSyncIntervalDays: fullSync ? 0 : this.settings.fullSyncIntervalDays,
+			// Updated in place; saved once the sync is done
+			syncState: this.settings.syncState,
+			registry: this.settings.databases,
+			// Saved after every page of results and every entry written
+			imports: this.settings.imports,
+			saveCheckpoint: () => this.saveSettings(),
+			signal,
+		};
+		const childSync = this.settings.syncChildren
+			? createChildSyncHandler(this.app, client, shared)
+			: undefined;
+		return { ...shared, childSync };
+	}
+
 	private openFreezeModal(): void {
 		if (!this.settings.apiKey) {
 			new Notice(
@@ -54,43 +403,206 @@ export default class NotionFreezePlugin extends Plugin {
 		new FreezeModal(
 			this.app,
 			this.settings.defaultOutputFolder,
-			(result) => { void this.executeFreshImport(result.notionInput, result.outputFolder); },
-			(db) => { void this.executeRefresh(db); }
+			listDatabases(this.settings.databases),
+			Object.values(this.settings.imports),
+			(result) => {
+				void this.queueSync(result.notionInput, () =>
+					this.executeFreshImport(result.notionInput, result.outputFolder, {
+						filter: result.filter,
+						sorts: result.sorts,
+					})
+				);
+			},
+			(db) => { void this.queueSync(db.databaseId, () => this.executeRefresh(db, false)); },
+			(db) => { void this.queueSync(db.databaseId, () => this.executeRefresh(db, false, true)); },
+			(db) => { void this.queueSync(db.databaseId, () => this.executeRefreshPreview(db)); },
+			(db) => { void this.queueSync(db.databaseId, () => this.executeDatabasePush(db)); },
+			(checkpoint) => {
+				void this.queueSync(checkpoint.databaseId, () =>
+					this.executeFreshImport(checkpoint.databaseId, this.settings.defaultOutputFolder)
+				);
+			},
+			(checkpoint) => { void this.discardImport(checkpoint); },
+			(db) => { void this.forgetDatabase(db); }
 		).open();
 	}
 
 	private async executeFreshImport(
 		input: string,
-		outputFolder: string
+		outputFolder: string,
+		query?: Pick<DatabaseSettings, "filter" | "sorts">
 	): Promise<void> {
+		const tracking = this.trackSync("Importing from Notion");
+		let notice: Notice | null = null;
 		try {
-			const databaseId = normalizeNotionId(input);
+			const notionId = normalizeNotionId(input);
 			const client = createNotionClient(this.settings.apiKey);
 
-			const notice = new Notice("Querying database from Notion...", 0);
+			const target = await retrieveNotionTarget(client, notionId);
+			if (target.type === "page") {
+				await this.executePageSync(client, target.page, outputFolder);
+				return;
+			}
+			const databaseId = target.database.id;
+			const resuming = databaseId in this.settings.imports;
+			// A database synced already is refused by the import below; its
+			// settings are left alone
+			const synced = !resuming &&
+				!!findRegisteredFolder(this.app, this.settings.databases, databaseId);
+			if (!synced) {
+				let dataSources = this.settings.databaseSettings[databaseId]?.dataSources;
+				if (!resuming && target.database.data_sources.length > 1) {
+					const picked = await this.pickDataSources(target.database);
+					if (picked === null) {
+						new Notice("Notion sync: import cancelled.");
+						return;
+					}
+					dataSources = picked;
+				}
+				// Stored before the first query so the import and later re-syncs
+				// use them. Empty fields in the sync modal clear the filter and sorts.
+				const current = this.settings.databaseSettings[databaseId] ?? {};
+				const updated: DatabaseSettings = {
+					...current,
+					filter: query ? query.filter : current.filter,
+					sorts: query ? query.sorts : current.sorts,
+					dataSources,
+				};
+				if (Object.values(updated).some((value) => value !== undefined)) {
+					this.settings.databaseSettings[databaseId] = updated;
+				} else {
+					delete this.settings.databaseSettings[databaseId];
+				}
+				await this.saveSettings();
+			}
+
+			const importing = new Notice("Querying database from Notion...", 0);
+			notice = importing;
 			const result = await freshDatabaseImport(
 				this.app,
 				client,
 				databaseId,
 				outputFolder,
 				(progress) => {
+					tracking.progress(progress);
 					switch (progress.phase) {
 						case "querying":
-							notice.setMessage("Querying database from Notion...");
+							importing.setMessage("Querying database from Notion...");
 							break;
 						case "importing":
-							notice.setMessage(
+							importing.setMessage(
 								`Importing ${progress.current} / ${progress.total} entries...`
 							);
 							break;
 						case "done":
-							notice.hide();
+							importing.hide();
 							break;
 					}
-				}
+				},
+				this.createSyncOptions(client, tracking.signal)
+			);
+			importing.hide();
+			const summary = formatDatabaseResult(
+				result.title,
+				result,
+				resuming ? "import finished" : "imported"
 			);
+			this.recordRun(databaseId, false, result.failed === 0, summary);
+			new Notice(summary);
+			await this.saveSettings();
+			await this.resolveLinksAfterSync();
+		} catch (err) {
+			notice?.hide();
+			notifySyncError(err);
+		} finally {
+			this.syncTracker.finish();
+		}
+	}
+
+	/**
+	 * Asks which data sources of a database to import. Resolves to the IDs
+	 * picked, undefined for all of them, or null when cancelled.
+	 */
+	private pickDataSources(database: DatabaseObjectResponse): Promise<string[] | undefined | null> {
+		return new Promise((resolve) => {
+			new DataSourcePickerModal(
+				this.app,
+				convertRichText(database.title) || "Untitled Database",
+				database.data_sources,
+				(picked) => resolve(picked),
+				() => resolve(null)
+			).open();
+		});
+	}
+
+	/**
+	 * Removes a database from the registry, so it is no longer re-synced.
+	 * Its notes and settings are kept; syncing it again imports it afresh.
+	 */
+	private async forgetDatabase(db: FrozenDatabase): Promise<void> {
+		delete this.settings.databases[db.databaseId];
+		delete this.settings.syncState[db.databaseId];
+		await this.saveSettings();
+		new Notice(`Notion sync: forgot "${db.title}". Its notes are kept.`);
+	}
+
+	private async discardImport(checkpoint: ImportCheckpoint): Promise<void> {
+		delete this.settings.imports[checkpoint.databaseId];
+		await this.saveSettings();
+		new Notice(
+			`Notion sync: discarded the unfinished import of "${checkpoint.title}". ` +
+			"Notes written so far are kept."
+		);
+	}
+
+	private async executePageSync(
+		client: Client,
+		page: PageObjectResponse,
+		outputFolder: string
+	): Promise<void> {
+		const notice = new Notice("Syncing page from Notion...", 0);
+		const { childSync, attachments } = this.createSyncOptions(client);
+		const result = await writeStandalonePage(this.app, {
+			client,
+			page,
+			outputFolder,
+			existingFile: findSyncedFile(this.app, page.id) ?? undefined,
+			childSync,
+			attachments,
+		});
+		notice.hide();
+		new Notice(`Notion sync: "${result.title}" ${result.status}.`);
+		await this.saveSettings();
+		await this.resolveLinksAfterSync();
+	}
+
+	private async executePageResync(file: TFile, notionId: string): Promise<void> {
+		try {
+			const client = createNotionClient(this.settings.apiKey);
+			const notice = new Notice("Re-syncing page from Notion...", 0);
+			const page = (await notionRequest(() =>
+				client.pages.retrieve({ page_id: notionId })
+			)) as PageObjectResponse;
+
+			// Database entries keep their database tracking; everything else is
+			// rewritten in place as a standalone page.
+			const databaseId = this.app.metadataCache.getFileCache(file)
+				?.frontmatter?.["notion-database-id"];
+			const options = this.createSyncOptions(client);
+			const result = typeof databaseId === "string"
+				? await this.rewriteDatabaseEntry(client, page, file, databaseId, options, false)
+				: await writeStandalonePage(this.app, {
+					client,
+					page,
+					outputFolder: file.parent?.path ?? "",
+					existingFile: file,
+					childSync: options.childSync,
+					attachments: options.attachments,
+				});
 			notice.hide();
-			new Notice(formatDatabaseResult(result.title, result, "imported"));
+			new Notice(`Notion sync: "${result.title}" re-synced.`);
+			await this.saveSettings();
+			await this.resolveLinksAfterSync();
 		} catch (err) {
 			console.error("Notion sync error:", err);
 			new Notice(
@@ -99,49 +611,478 @@ export default class NotionFreezePlugin extends Plugin {
 		}
 	}
 
-	private async executeRefresh(db: FrozenDatabase): Promise<void> {
+	private async rewriteDatabaseEntry(
+		client: Client,
+		page: PageObjectResponse,
+		file: TFile,
+		databaseId: string,
+		options: DatabaseSyncOptions,
+		afterPush: boolean
+	): Promise<PageWriteResult> {
+		const folderPath = findDatabaseFolder(file) ?? "";
+		// Passing the current path keeps a collision suffix the note carries
+		const fileName = assignEntryPaths(
+			[page],
+			entryNamingOptions(options, databaseId),
+			new Map([[page.id, entryPath(file, folderPath)]])
+		).get(page.id);
+
+		const writeOptions = {
+			client,
+			page,
+			outputFolder: folderPath,
+			databaseId,
+			fileName,
+			existingFile: file,
+			childSync: options.childSync,
+			attachments: options.attachments,
+			propertyMappings: options.propertyMappings?.[databaseId],
+			bodyTemplate: options.databaseSettings?.[databaseId]?.bodyTemplate,
+		};
+		// Re-syncing a page is an explicit request to take Notion's version
+		return afterPush
+			? await refreshPushedEntry(this.app, writeOptions)
+			: await writeDatabaseEntry(this.app, { ...writeOptions, conflictPolicy: "overwrite" });
+	}
+
+	private async executePagePush(file: TFile, notionId: string, databaseId: string): Promise<void> {
 		try {
 			const client = createNotionClient(this.settings.apiKey);
+			const notice = new Notice("Pushing changes to Notion...", 0);
+			const page = (await notionRequest(() =>
+				client.pages.retrieve({ page_id: notionId })
+			)) as PageObjectResponse;
 
-			const notice = new Notice(`Querying "${db.title}" from Notion...`, 0);
-			const result = await refreshDatabase(
+			const options = this.createSyncOptions(client);
+			const folderPath = findDatabaseFolder(file) ?? "";
+			const naming = entryNamingOptions(options, databaseId);
+			const syncedPath = assignEntryPaths(
+				[page],
+				naming,
+				new Map([[page.id, entryPath(file, folderPath)]])
+			).get(page.id);
+
+			const result = await pushEntryChanges(this.app, client, file, page, {
+				propertyMappings: options.propertyMappings?.[databaseId],
+				syncedFileName: titleFileName(syncedPath, naming),
+				linkTargets: buildNotionTargetIndex(this.app),
+			});
+			notice.hide();
+
+			if (result.status === "conflict") {
+				new Notice(
+					`Notion sync: "${result.title}" changed in Notion since it was last synced. ` +
+					"Re-sync it before pushing."
+				);
+				return;
+			}
+			if (result.status === "pushed") {
+				// Pick up Notion's normalized values and the new last-edited time
+				await this.rewriteDatabaseEntry(client, result.page, file, databaseId, options, true);
+			}
+			new Notice(formatPushResult(result.title, result.pushed.length, result.refused));
+		} catch (err) {
+			console.error("Notion sync error:", err);
+			new Notice(
+				`Notion sync error: ${err instanceof Error ? err.message : String(err)}`
+			);
+		}
+	}
+
+	private async executeContentPush(file: TFile, notionId: string): Promise<void> {
+		try {
+			const client = createNotionClient(this.settings.apiKey);
+			const notice = new Notice("Pushing note content to Notion...", 0);
+			const page = (await notionRequest(() =>
+				client.pages.retrieve({ page_id: notionId })
+			)) as PageObjectResponse;
+
+			const databaseId = this.app.metadataCache.getFileCache(file)
+				?.frontmatter?.["notion-database-id"];
+			const result = await pushPageContent(this.app, client, file, page, {
+				attachments: this.createSyncOptions(client).attachments,
+				bodyTemplate: typeof databaseId === "string"
+					? this.settings.databaseSettings[databaseId]?.bodyTemplate
+					: undefined,
+			});
+			notice.hide();
+
+			switch (result.status) {
+				case "conflict":
+					new Notice(
+						`Notion sync: "${result.title}" changed in Notion since it was last synced. ` +
+						"Re-sync it before pushing."
+					);
+					return;
+				case "refused":
+					new Notice(
+						`Notion sync: "${result.title}" was not pushed. Nothing in Notion was changed.\n` +
+						result.problems.join("\n"),
+						0
+					);
+					return;
+				case "unchanged":
+					new Notice(`Notion sync: "${result.title}" has no content changes to push.`);
+					return;
+			}
+
+			new Notice(
+				`Notion sync: "${result.title}" pushed. ` +
+				`${result.added} blocks added, ${result.removed} removed.`
+			);
+			// Track the new last-edited time. Database entries keep property
+			// edits that weren't pushed; standalone pages are rewritten.
+			if (typeof databaseId !== "string") {
+				await this.executePageResync(file, notionId);
+				return;
+			}
+			const pushed = (await notionRequest(() =>
+				client.pages.retrieve({ page_id: notionId })
+			)) as PageObjectResponse;
+			const options = this.createSyncOptions(client);
+			await refreshContentPushedEntry(this.app, {
+				client,
+				page: pushed,
+				outputFolder: file.parent?.path ?? "",
+				databaseId,
+				existingFile: file,
+				attachments: options.attachments,
+				propertyMappings: options.propertyMappings?.[databaseId],
+			});
+			await this.saveSettings();
+		} catch (err) {
+			console.error("Notion sync error:", err);
+			new Notice(
+				`Notion sync error: ${err instanceof Error ? err.message : String(err)}`
+			);
+		}
+	}
+
+	private async executeDatabasePush(db: FrozenDatabase): Promise<void> {
+		const tracking = this.trackSync(`Pushing "${db.title}"`);
+		const notice = new Notice(`Querying "${db.title}" from Notion...`, 0);
+		try {
+			const client = createNotionClient(this.settings.apiKey);
+
+			const result = await pushDatabaseChanges(
 				this.app,
 				client,
 				db,
 				(progress) => {
+					tracking.progress(progress);
 					switch (progress.phase) {
-						case "querying":
-							notice.setMessage(`Querying "${db.title}" from Notion...`);
-							break;
 						case "diffing":
-							notice.setMessage("Checking against current freeze dates...");
-							break;
-						case "detected":
-							new Notice(
-								`Detected ${progress.staleCount} of ${progress.total} entries out of date`,
-								5000
-							);
+							notice.setMessage("Comparing notes with Notion...");
 							break;
-						case "importing":
+						case "pushing":
 							notice.setMessage(
-								`Refreshing ${progress.current} / ${progress.total} entries...`
+								`Checking ${progress.current} / ${progress.total} entries...`
 							);
 							break;
 						case "done":
 							notice.hide();
 							break;
 					}
-				}
+				},
+				this.createSyncOptions(client, tracking.signal)
 			);
 			notice.hide();
-			new Notice(formatDatabaseResult(result.title, result, "re-synced"));
+
+			let msg =
+				`Notion sync: "${result.title}" pushed. ` +
+				`${result.pushed} updated in Notion, ${result.unchanged} unchanged`;
+			if (result.failed > 0) {
+				msg += `, ${result.failed} failed`;
+			}
+			msg += ".";
+			if (result.conflicts.length > 0) {
+				msg += "\nChanged in Notion since the last sync, re-sync first:\n" + result.conflicts.join("\n");
+			}
+			if (result.refused.length > 0) {
+				msg += "\nNot pushed (read-only or invalid value):\n" + result.refused.join("\n");
+			}
+			if (result.errors.length > 0) {
+				msg += "\nErrors:\n" + result.errors.join("\n");
+			}
+			new Notice(msg);
+			await this.resolveLinksAfterSync();
 		} catch (err) {
+			notice.hide();
+			notifySyncError(err);
+		} finally {
+			this.syncTracker.finish();
+		}
+	}
+
+	/**
+	 * Re-syncs a database and records the outcome. Scheduled runs show no
+	 * progress and only notify when something failed. A full re-sync
+	 * queries every entry, which finds deletions before the interval is up.
+	 */
+	private async executeRefresh(
+		db: FrozenDatabase,
+		scheduled: boolean,
+		fullSync = false
+	): Promise<void> {
+		// The connection may have dropped while the run was queued
+		if (scheduled && !navigator.onLine) return;
+		const tracking = this.trackSync(`Re-syncing "${db.title}"`);
+		const notice = scheduled ? null : new Notice(`Querying "${db.title}" from Notion...`, 0);
+		try {
+			const client = createNotionClient(this.settings.apiKey);
+
+			const result = await refreshDatabase(
+				this.app,
+				client,
+				db,
+				notice ? combineProgress(tracking.progress, refreshProgress(notice, db)) : tracking.progress,
+				this.createSyncOptions(client, tracking.signal, fullSync)
+			);
+			notice?.hide();
+			const summary = formatDatabaseResult(result.title, result, "re-synced");
+			this.recordRun(db.databaseId, scheduled, result.failed === 0, summary);
+			if (!scheduled || result.failed > 0) {
+				new Notice(summary);
+			}
+			await this.saveSettings();
+			await this.resolveLinksAfterSync();
+		} catch (err) {
+			notice?.hide();
+			if (isSyncCancelled(err)) {
+				this.recordRun(db.databaseId, scheduled, false, "Notion sync: cancelled.");
+				await this.saveSettings();
+				notifySyncError(err);
+				return;
+			}
 			console.error("Notion sync error:", err);
+			const message = err instanceof Error ? err.message : String(err);
+			this.recordRun(db.databaseId, scheduled, false, `Notion sync error: ${message}`);
+			await this.saveSettings();
 			new Notice(
-				`Notion sync error: ${err instanceof Error ? err.message : String(err)}`
+				scheduled
+					? `Notion sync error: scheduled re-sync of "${db.title}" failed: ${message}`
+					: `Notion sync error: ${message}`
 			);
+		} finally {
+			this.syncTracker.finish();
 		}
 	}
+
+	/**
+	 * Re-syncs every registered database, one after another, and reports
+	 * them together in one notice. A database that fails doesn't stop the
+	 * rest.
+	 */
+	private async executeRefreshAll(): Promise<void> {
+		if (!this.settings.apiKey) {
+			new Notice("Notion sync: please set your API key in settings.");
+			return;
+		}
+		const registered = listDatabases(this.settings.databases);
+		const databases = registered.filter((db) => hasDatabaseFolder(this.app, db));
+		if (databases.length === 0) {
+			new Notice("Notion sync: no synced databases to re-sync.");
+			return;
+		}
+
+		const notice = new Notice(
+			this.syncQueue.busy
+				? "Notion sync: waiting for the running sync to finish..."
+				: `Re-syncing ${databases.length} Notion databases...`,
+			0
+		);
+		const lines = registered
+			.filter((db) => !databases.includes(db))
+			.map((db) => `"${db.title}": skipped, its folder ${db.folderPath} is gone.`);
+		const errors: string[] = [];
+		let failures = 0;
+		let done = 0;
+		// Cancelling stops the whole batch
+		const controller = new AbortController();
+
+		const runs = databases.map((db, index) =>
+			this.syncQueue.run(db.databaseId, async () => {
+				if (controller.signal.aborted) {
+					lines.push(`"${db.title}": cancelled.`);
+					return;
+				}
+				const label = `Re-syncing ${index + 1} / ${databases.length}: "${db.title}"`;
+				notice.setMessage(label);
+				const tracking = this.trackSync(label, controller);
+				try {
+					const client = createNotionClient(this.settings.apiKey);
+					const result = await refreshDatabase(
+						this.app,
+						client,
+						db,
+						combineProgress(tracking.progress, batchProgress(notice, label)),
+						this.createSyncOptions(client, tracking.signal)
+					);
+					this.recordRun(
+						db.databaseId,
+						false,
+						result.failed === 0,
+						formatDatabaseResult(result.title, result, "re-synced")
+					);
+					lines.push(`"${result.title}": ${formatCounts(result)}.`);
+					errors.push(...result.errors.map((error) => `"${result.title}": ${error}`));
+					if (result.failed > 0) failures++;
+				} catch (err) {
+					if (isSyncCancelled(err)) {
+						this.recordRun(db.databaseId, false, false, "Notion sync: cancelled.");
+						lines.push(`"${db.title}": cancelled.`);
+						return;
+					}
+					console.error("Notion sync error:", err);
+					const message = err instanceof Error ? err.message : String(err);
+					this.recordRun(db.databaseId, false, false, `Notion sync error: ${message}`);
+					lines.push(`"${db.title}": failed: ${message}`);
+					failures++;
+				} finally {
+					this.syncTracker.finish();
+				}
+				done++;
+			})
+		);
+		await Promise.all(runs);
+		notice.hide();
+
+		let msg = `Notion sync: re-synced ${done} ${done === 1 ? "database" : "databases"}`;
+		msg += failures > 0 ? `, ${failures} with failures.` : ".";
+		msg += "\n" + lines.join("\n");
+		if (errors.length > 0) {
+			msg += "\nErrors:\n" + errors.join("\n");
+		}
+		new Notice(msg, failures > 0 ? 0 : undefined);
+		await this.saveSettings();
+		await this.resolveLinksAfterSync();
+	}
+
+	/**
+	 * Runs the query and diff passes of a re-sync without writing, then lets
+	 * the user pick which of the changes to apply.
+	 */
+	private async executeRefreshPreview(db: FrozenDatabase): Promise<void> {
+		const tracking = this.trackSync(`Previewing "${db.title}"`);
+		const notice = new Notice(`Querying "${db.title}" from Notion...`, 0);
+		try {
+			const client = createNotionClient(this.settings.apiKey);
+
+			const plan = await planDatabaseRefresh(
+				this.app,
+				client,
+				db,
+				combineProgress(tracking.progress, refreshProgress(notice, db)),
+				this.createSyncOptions(client, tracking.signal)
+			);
+			notice.hide();
+			this.syncTracker.finish();
+
+			new ResyncPreviewModal(this.app, plan, (selection) => {
+				void this.queueSync(db.databaseId, async () => {
+					const applyTracking = this.trackSync(`Re-syncing "${db.title}"`);
+					const applying = new Notice(`Re-syncing "${db.title}"...`, 0);
+					try {
+						const result = await applyRefreshPlan(
+							this.app,
+							client,
+							plan,
+							combineProgress(applyTracking.progress, refreshProgress(applying, db)),
+							this.createSyncOptions(client, applyTracking.signal),
+							selection
+						);
+						applying.hide();
+						const summary = formatDatabaseResult(result.title, result, "re-synced");
+						this.recordRun(db.databaseId, false, result.failed === 0, summary);
+						new Notice(summary);
+						await this.saveSettings();
+						await this.resolveLinksAfterSync();
+					} catch (err) {
+						applying.hide();
+						notifySyncError(err);
+					} finally {
+						this.syncTracker.finish();
+					}
+				});
+			}).open();
+		} catch (err) {
+			notice.hide();
+			this.syncTracker.finish();
+			notifySyncError(err);
+		}
+	}
+}
+
+// Cancelled syncs keep what they wrote, so they are reported without an error
+function notifySyncError(err: unknown): void {
+	if (isSyncCancelled(err)) {
+		new Notice("Notion sync: cancelled. Notes written before that are kept.");
+		return;
+	}
+	console.error("Notion sync error:", err);
+	new Notice(`Notion sync error: ${err instanceof Error ? err.message : String(err)}`);
+}
+
+function combineProgress(...callbacks: ProgressCallback[]): ProgressCallback {
+	return (progress) => {
+		for (const callback of callbacks) callback(progress);
+	};
+}
+
+function refreshProgress(notice: Notice, db: FrozenDatabase): ProgressCallback {
+	return (progress) => {
+		switch (progress.phase) {
+			case "querying":
+				notice.setMessage(`Querying "${db.title}" from Notion...`);
+				break;
+			case "diffing":
+				notice.setMessage("Checking against current freeze dates...");
+				break;
+			case "detected":
+				new Notice(
+					`Detected ${progress.staleCount} of ${progress.total} entries out of date`,
+					5000
+				);
+				break;
+			case "importing":
+				notice.setMessage(
+					`Refreshing ${progress.current} / ${progress.total} entries...`
+				);
+				break;
+			case "done":
+				notice.hide();
+				break;
+		}
+	};
+}
+
+// Progress of one database in a batch re-sync, below the batch's position
+function batchProgress(notice: Notice, label: string): ProgressCallback {
+	return (progress) => {
+		switch (progress.phase) {
+			case "querying":
+				notice.setMessage(`${label}\nQuerying from Notion...`);
+				break;
+			case "diffing":
+				notice.setMessage(`${label}\nChecking against current freeze dates...`);
+				break;
+			case "importing":
+				notice.setMessage(
+					`${label}\nRefreshing ${progress.current} / ${progress.total} entries...`
+				);
+				break;
+		}
+	};
+}
+
+function formatPushResult(title: string, pushed: number, refused: string[]): string {
+	let msg = pushed > 0
+		? `Notion sync: "${title}" pushed ${pushed} ${pushed === 1 ? "property" : "properties"}.`
+		: `Notion sync: "${title}" has no changes to push.`;
+	if (refused.length > 0) {
+		msg += `\nNot pushed (read-only or invalid value): ${refused.join(", ")}`;
+	}
+	return msg;
 }
 
 function formatDatabaseResult(
@@ -149,16 +1090,37 @@ function formatDatabaseResult(
 	result: DatabaseSyncResult,
 	verb: string
 ): string {
+	let msg = `Notion sync: "${title}" ${verb}. ${formatCounts(result)}.`;
+	if (result.errors.length > 0) {
+		msg += "\nErrors:\n" + result.errors.join("\n");
+	}
+	return msg;
+}
+
+function formatCounts(result: DatabaseSyncResult): string {
 	let msg =
-		`Notion sync: "${title}" ${verb}. ` +
 		`${result.created} created, ${result.updated} updated, ` +
 		`${result.skipped} unchanged, ${result.deleted} deleted`;
+	if (result.restored > 0) {
+		msg += `, ${result.restored} restored`;
+	}
+	if (result.renamed > 0) {
+		msg += `, ${result.renamed} renamed`;
+	}
+	if (result.filteredOut > 0) {
+		msg += `, ${result.filteredOut} no longer match the filter`;
+	}
+	if (result.published > 0) {
+		msg += `, ${result.published} published`;
+	}
+	if (result.localEdits > 0) {
+		msg += `, ${result.localEdits} edited locally`;
+	}
+	if (result.conflictCopies > 0) {
+		msg += ` (${result.conflictCopies} saved as conflict copies)`;
+	}
 	if (result.failed > 0) {
 		msg += `, ${result.failed} failed`;
 	}
-	msg += ".";
-	if (result.errors.length > 0) {
-		msg += "\nErrors:\n" + result.errors.join("\n");
-	}
 	return msg;
 }
@@ -0,0 +1,489 @@
+import {
+	BlockObjectRequest,
+	UpdatePageParameters,
+} from "@notionhq/client/build/src/api-endpoints";
+import { calloutTypeToEmoji } from "./block-converter";
+import { LOCAL_REGION_END, LOCAL_REGION_START } from "./local-edits";
+
+type PropertyRequest = NonNullable<UpdatePageParameters["properties"]>[string];
+export type RichTextRequest = Extract<PropertyRequest, { rich_text: unknown }>["rich_text"][number];
+type Annotations = NonNullable<RichTextRequest["annotations"]>;
+type CodeLanguage = Extract<BlockObjectRequest, { code: unknown }>["code"]["language"];
+
+// Notion rejects text objects longer than this
+const MAX_TEXT_LENGTH = 2000;
+
+// The inline syntax the block converter writes, tried in this order. Like
+// Obsidian, single `*` and `$` only count when the text inside starts and
+// ends without a space, and not inside a word or before a digit, so
+// "2*3*4" and "$5 and $10" stay plain text.
+const INLINE_PATTERN = new RegExp(
+	[
+		"`([^`]+)`", // 1 code
+		"\\*\\*\\*(.+?)\\*\\*\\*", // 2 bold italic
+		"\\*\\*(.+?)\\*\\*", // 3 bold
+		"~~(.+?)~~", // 4 strikethrough
+		"==(.+?)==", // 5 highlight
+		"<u>(.+?)</u>", // 6 underline
+		"(?<![\\w*])\\*(?=\\S)([^*]+?)(?<=\\S)\\*(?![\\w*])", // 7 italic
+		"\\[\\[([^\\]|]+)(?:\\|([^\\]]*))?\\]\\]", // 8, 9 wikilink
+		"\\[([^\\]]+)\\]\\(([^)\\s]+)\\)", // 10, 11 link
+		"(?<![\\w$])\\$(?=\\S)([^$\\n]+?)(?<=\\S)\\$(?!\\d)", // 12 equation
+	].join("|"),
+	"g"
+);
+
+/**
+ * Maps a wikilink target to the Notion page it mirrors, or null when the
+ * note isn't synced from Notion.
+ */
+export type NotionIdResolver = (linkpath: string) => string | null;
+
+/**
+ * Parses the inline Markdown produced by `convertRichText` back into Notion
+ * rich text, so text round-trips with its formatting. Wikilinks to synced
+ * notes become page mentions, and other wikilinks are kept as written;
+ * anything unrecognized is kept as plain text.
+ */
+export function parseInlineMarkdown(
+	text: string,
+	resolveNotionId: NotionIdResolver = () => null
+): RichTextRequest[] {
+	const items: RichTextRequest[] = [];
+	parseInto(text, {}, resolveNotionId, items);
+	return items;
+}
+
+function parseInto(
+	text: string,
+	annotations: Annotations,
+	resolveNotionId: NotionIdResolver,
+	items: RichTextRequest[]
+): void {
+	// Fresh instance per call, since nested calls would share lastIndex
+	const pattern = new RegExp(INLINE_PATTERN.source, "g");
+	let last = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(text)) !== null) {
+		pushText(text.slice(last, match.index), annotations, items);
+		last = match.index + match[0].length;
+
+		if (match[1] !== undefined) {
+			pushText(match[1], { ...annotations, code: true }, items);
+		} else if (match[2] !== undefined) {
+			parseInto(match[2], { ...annotations, bold: true, italic: true }, resolveNotionId, items);
+		} else if (match[3] !== undefined) {
+			parseInto(match[3], { ...annotations, bold: true }, resolveNotionId, items);
+		} else if (match[4] !== undefined) {
+			parseInto(match[4], { ...annotations, strikethrough: true }, resolveNotionId, items);
+		} else if (match[5] !== undefined) {
+			parseInto(match[5], { ...annotations, color: "yellow_background" }, resolveNotionId, items);
+		} else if (match[6] !== undefined) {
+			parseInto(match[6], { ...annotations, underline: true }, resolveNotionId, items);
+		} else if (match[7] !== undefined) {
+			parseInto(match[7], { ...annotations, italic: true }, resolveNotionId, items);
+		} else if (match[8] !== undefined) {
+			const id = resolveNotionId(match[8].trim());
+			if (id) {
+				items.push({ type: "mention", mention: { page: { id } }, annotations });
+			} else {
+				// Notes that aren't in Notion keep the link as written, so it
+				// still links once synced back
+				pushText(match[0], annotations, items);
+			}
+		} else if (match[10] !== undefined) {
+			// Fallback links the link resolver writes for unsynced pages
+			const notionPage = match[11].match(/^https:\/\/www\.notion\.so\/([0-9a-f]{32})$/i);
+			if (notionPage) {
+				items.push({ type: "mention", mention: { page: { id: notionPage[1] } }, annotations });
+			} else {
+				pushText(match[10], annotations, items, match[11]);
+			}
+		} else if (match[12] !== undefined) {
+			items.push({ type: "equation", equation: { expression: match[12] }, annotations });
+		}
+	}
+
+	pushText(text.slice(last), annotations, items);
+}
+
+function pushText(
+	content: string,
+	annotations: Annotations,
+	items: RichTextRequest[],
+	url?: string
+): void {
+	for (let i = 0; i < content.length; i += MAX_TEXT_LENGTH) {
+		items.push({
+			type: "text",
+			text: {
+				content: content.slice(i, i + MAX_TEXT_LENGTH),
+				link: url ? { url } : null,
+			},
+			annotations,
+		});
+	}
+}
+
+/**
+ * A block parsed from Markdown. Nested blocks are kept apart from the request
+ * because Notion only accepts two levels of nesting per call; table rows are
+ * the exception and stay inside their table.
+ */
+export interface MarkdownBlock {
+	request: BlockObjectRequest;
+	children: MarkdownBlock[];
+}
+
+export interface ParsedMarkdown {
+	blocks: MarkdownBlock[];
+	// Constructs that have no Notion block, quoted from the Markdown
+	unsupported: string[];
+}
+
+/**
+ * Parses note Markdown into Notion blocks: the inverse of
+ * `convertBlocksToMarkdown` for headings, lists, to-dos, code, quotes,
+ * callouts, toggles, tables, equations, dividers, images by URL and
+ * paragraphs. Comments are left out, as by `stripComments`. Anything else
+ * is listed in `unsupported` instead of being dropped or flattened into text.
+ */
+export function parseMarkdownBlocks(
+	markdown: string,
+	resolveNotionId: NotionIdResolver = () => null
+): ParsedMarkdown {
+	const unsupported: string[] = [];
+	const blocks = parseLines(stripComments(markdown).split("\n"), resolveNotionId, unsupported);
+	return { blocks, unsupported };
+}
+
+/**
+ * Removes what only lives in the vault: Obsidian `%% … %%` comments, on one
+ * line or across several, and local regions between `%% notion-local %%` and
+ * `%% /notion-local %%` lines. Lines that held nothing else are dropped
+ * rather than left blank. Code blocks are kept as they are.
+ */
+export function stripComments(markdown: string): string {
+	const kept: string[] = [];
+	let fence: string | null = null;
+	let inComment = false;
+	let inLocalRegion = false;
+
+	for (const line of markdown.split("\n")) {
+		const trimmed = line.trim();
+		if (fence !== null) {
+			kept.push(line);
+			if (trimmed.startsWith(fence)) fence = null;
+			continue;
+		}
+		if (inLocalRegion) {
+			if (trimmed === LOCAL_REGION_END) inLocalRegion = false;
+			continue;
+		}
+		if (!inComment) {
+			if (trimmed === LOCAL_REGION_START) {
+				inLocalRegion = true;
+				continue;
+			}
+			const opening = trimmed.match(FENCE_PATTERN);
+			if (opening) {
+				fence = opening[1];
+				kept.push(line);
+				continue;
+			}
+		}
+
+		// Keep the text outside comments, which may open or close mid-line
+		let text = "";
+		let rest = line;
+		for (;;) {
+			const at = rest.indexOf("%%");
+			if (at === -1) {
+				if (!inComment) text += rest;
+				break;
+			}
+			if (!inComment) text += rest.slice(0, at);
+			rest = rest.slice(at + 2);
+			inComment = !inComment;
+		}
+		if (text === line) kept.push(line);
+		else if (text.trim() !== "") kept.push(text.replace(/\s+$/, ""));
+	}
+	return kept.join("\n");
+}
+
+const FENCE_PATTERN = /^(`{3,}|~{3,})\s*([^`]*)$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const CALLOUT_PATTERN = /^\[!([\w-]+)\]([+-]?)\s*(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+const DIVIDER_PATTERN = /^(?:-{3,}|\*{3,}|_{3,})$/;
+const IMAGE_PATTERN = /^!\[([^\]]*)\]\((\S+)\)$/;
+const EMBED_PATTERN = /!\[\[[^\]]+\]\]|!\[[^\]]*\]\([^)]*\)/;
+
+function parseLines(
+	lines: string[],
+	resolveNotionId: NotionIdResolver,
+	unsupported: string[]
+): MarkdownBlock[] {
+	const blocks: MarkdownBlock[] = [];
+	const rich = (text: string) => parseInlineMarkdown(text, resolveNotionId);
+	let i = 0;
+
+	while (i < lines.length) {
+		const line = lines[i];
+		const trimmed = line.trim();
+
+		const fence = trimmed.match(FENCE_PATTERN);
+		if (fence) {
+			const end = findIndex(lines, i + 1, (l) => l.trim().startsWith(fence[1]));
+			const code = lines.slice(i + 1, end).join("\n");
+			if (end === lines.length) unsupported.push(`${trimmed} (unclosed code block)`);
+			blocks.push(leaf({
+				type: "code",
+				code: { rich_text: plainText(code), language: codeLanguage(fence[2].trim()) },
+			}));
+			i = end + 1;
+			continue;
+		}
+
+		if (trimmed.startsWith("$$")) {
+			const single = trimmed.match(/^\$\$(.+)\$\$$/);
+			const end = single ? i : findIndex(lines, i + 1, (l) => l.trim() === "$$");
+			const expression = single
+				? single[1].trim()
+				: lines.slice(i + 1, end).join("\n");
+			if (end === lines.length) unsupported.push(`${trimmed} (unclosed equation)`);
+			blocks.push(leaf({ type: "equation", equation: { expression } }));
+			i = end + 1;
+			continue;
+		}
+
+		if (trimmed.startsWith("|")) {
+			const end = findIndex(lines, i, (l) => !l.trim().startsWith("|"));
+			blocks.push(parseTable(lines.slice(i, end), rich));
+			i = end;
+			continue;
+		}
+
+		if (trimmed.startsWith(">")) {
+			// A callout header starts a new block even right after another
+			const end = findIndex(
+				lines,
+				i + 1,
+				(l) => !l.trim().startsWith(">") || /^>\s*\[!/.test(l.trim())
+			);
+			const inner = lines.slice(i, end).map((l) => l.trim().replace(/^> ?/, ""));
+			blocks.push(parseQuote(inner, resolveNotionId, unsupported));
+			i = end;
+			continue;
+		}
+
+		const item = line.match(LIST_ITEM_PATTERN);
+		if (item) {
+			// Everything indented deeper than the marker belongs to the item
+			const indent = indentWidth(item[1]);
+			const end = findIndex(
+				lines,
+				i + 1,
+				(l) => l.trim() === "" || indentWidth(l.match(/^\s*/)?.[0] ?? "") <= indent
+			);
+			const children = parseLines(dedent(lines.slice(i + 1, end)), resolveNotionId, unsupported);
+			blocks.push({ request: listItem(item[2], item[3], rich(item[4])), children });
+			i = end;
+			continue;
+		}
+
+		i++;
+		const heading = trimmed.match(HEADING_PATTERN);
+		if (heading) {
+			if (heading[1].length > 3) {
+				unsupported.push(`${trimmed} (Notion has three heading levels)`);
+			} else {
+				blocks.push(leaf(headingBlock(heading[1].length, rich(heading[2]), false)));
+			}
+			continue;
+		}
+		if (DIVIDER_PATTERN.test(trimmed.replace(/\s/g, ""))) {
+			blocks.push(leaf({ type: "divider", divider: {} }));
+			continue;
+		}
+		const image = trimmed.match(IMAGE_PATTERN);
+		if (image && /^https?:\/\//.test(image[2])) {
+			const caption = image[1] && image[1] !== "image" ? rich(image[1]) : [];
+			blocks.push(leaf({ type: "image", image: { external: { url: image[2] }, caption } }));
+			continue;
+		}
+		if (EMBED_PATTERN.test(trimmed)) {
+			unsupported.push(`${trimmed} (embedded file)`);
+			continue;
+		}
+		if (trimmed.startsWith("<") && !trimmed.startsWith("<u>")) {
+			unsupported.push(`${trimmed} (HTML)`);
+			continue;
+		}
+		blocks.push(leaf({ type: "paragraph", paragraph: { rich_text: rich(trimmed) } }));
+	}
+
+	return blocks;
+}
+
+/**
+ * Quote-prefixed lines: an Obsidian callout or toggle (`> [!type]`, with `+`
+ * or `-` for toggles), or a plain quote. The first line is the block's text
+ * and the rest become its children.
+ */
+function parseQuote(
+	lines: string[],
+	resolveNotionId: NotionIdResolver,
+	unsupported: string[]
+): MarkdownBlock {
+	const rich = (text: string) => parseInlineMarkdown(text, resolveNotionId);
+	const callout = lines[0].match(CALLOUT_PATTERN);
+
+	if (callout && callout[2]) {
+		const children = parseLines(lines.slice(1), resolveNotionId, unsupported);
+		const heading = callout[3].match(HEADING_PATTERN);
+		if (heading && heading[1].length <= 3) {
+			return { request: headingBlock(heading[1].length, rich(heading[2]), true), children };
+		}
+		return { request: { type: "toggle", toggle: { rich_text: rich(callout[3]) } }, children };
+	}
+
+	let text = lines[0];
+	let rest = lines.slice(1);
+	let icon: string | null = null;
+	if (callout) {
+		icon = calloutTypeToEmoji(callout[1]) ?? calloutTypeToEmoji("info");
+		text = callout[3] || (rest[0] ?? "");
+		rest = callout[3] ? rest : rest.slice(1);
+	}
+	const children = parseLines(rest, resolveNotionId, unsupported);
+	if (icon) {
+		return {
+			request: { type: "callout", callout: { rich_text: rich(text), icon: { emoji: icon } } },
+			children,
+		};
+	}
+	return { request: { type: "quote", quote: { rich_text: rich(text) } }, children };
+}
+
+function parseTable(
+	lines: string[],
+	rich: (text: string) => RichTextRequest[]
+): MarkdownBlock {
+	const hasHeader = lines.length > 1 && TABLE_SEPARATOR_PATTERN.test(lines[1].trim());
+	const rows = lines
+		.filter((_line, index) => !(hasHeader && index === 1))
+		.map((line) => line.trim().replace(/^\|/, "").replace(/\|$/, "").split("|").map((c) => c.trim()));
+	const width = Math.max(...rows.map((cells) => cells.length));
+
+	return leaf({
+		type: "table",
+		table: {
+			table_width: width,
+			has_column_header: hasHeader,
+			has_row_header: false,
+			children: rows.map((cells) => ({
+				type: "table_row" as const,
+				table_row: {
+					cells: Array.from({ length: width }, (_v, index) => rich(cells[index] ?? "")),
+				},
+			})),
+		},
+	});
+}
+
+function listItem(
+	marker: string,
+	check: string | undefined,
+	richText: RichTextRequest[]
+): BlockObjectRequest {
+	if (check !== undefined && /^[-*+]$/.test(marker)) {
+		return { type: "to_do", to_do: { rich_text: richText, checked: check !== " " } };
+	}
+	if (/^\d/.test(marker)) {
+		return { type: "numbered_list_item", numbered_list_item: { rich_text: richText } };
+	}
+	return { type: "bulleted_list_item", bulleted_list_item: { rich_text: richText } };
+}
+
+function headingBlock(
+	level: number,
+	richText: RichTextRequest[],
+	toggleable: boolean
+): BlockObjectRequest {
+	const heading = { rich_text: richText, is_toggleable: toggleable };
+	if (level === 1) return { type: "heading_1", heading_1: heading };
+	if (level === 2) return { type: "heading_2", heading_2: heading };
+	return { type: "heading_3", heading_3: heading };
+}
+
+// Names the block converter writes are Notion's own; a few common aliases
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+	js: "javascript",
+	ts: "typescript",
+	py: "python",
+	sh: "shell",
+	zsh: "shell",
+	yml: "yaml",
+	md: "markdown",
+	cpp: "c++",
+	cs: "c#",
+	rb: "ruby",
+	rs: "rust",
+	kt: "kotlin",
+	dockerfile: "docker",
+};
+
+const CODE_LANGUAGES = new Set<string>([
+	"abap", "abc", "agda", "arduino", "ascii art", "assembly", "bash", "basic", "bnf", "c",
+	"c#", "c++", "clojure", "coffeescript", "coq", "css", "dart", "dhall", "diff", "docker",
+	"ebnf", "elixir", "elm", "erlang", "f#", "flow", "fortran", "gherkin", "glsl", "go",
+	"graphql", "groovy", "haskell", "hcl", "html", "idris", "java", "javascript", "json",
+	"julia", "kotlin", "latex", "less", "lisp", "livescript", "llvm ir", "lua", "makefile",
+	"markdown", "markup", "matlab", "mathematica", "mermaid", "nix", "notion formula",
+	"objective-c", "ocaml", "pascal", "perl", "php", "plain text", "powershell", "prolog",
+	"protobuf", "purescript", "python", "r", "racket", "reason", "ruby", "rust", "sass",
+	"scala", "scheme", "scss", "shell", "smalltalk", "solidity", "sql", "swift", "toml",
+	"typescript", "vb.net", "verilog", "vhdl", "visual basic", "webassembly", "xml", "yaml",
+	"java/c/c++/c#",
+]);
+
+function codeLanguage(name: string): CodeLanguage {
+	const lower = name.toLowerCase();
+	if (CODE_LANGUAGES.has(lower)) return lower as CodeLanguage;
+	return LANGUAGE_ALIASES[lower] ?? "plain text";
+}
+
+// Code and equations are sent verbatim, split to Notion's length limit
+function plainText(text: string): RichTextRequest[] {
+	const items: RichTextRequest[] = [];
+	pushText(text, {}, items);
+	return items;
+}
+
+function leaf(request: BlockObjectRequest): MarkdownBlock {
+	return { request, children: [] };
+}
+
+function findIndex(lines: string[], from: number, predicate: (line: string) => boolean): number {
+	for (let i = from; i < lines.length; i++) {
+		if (predicate(lines[i])) return i;
+	}
+	return lines.length;
+}
+
+// Tabs count as four spaces, as the block converter indents with four
+function indentWidth(whitespace: string): number {
+	return whitespace.replace(/\t/g, "    ").length;
+}
+
+function dedent(lines: string[]): string[] {
+	const widths = lines
+		.filter((line) => line.trim() !== "")
+		.map((line) => indentWidth(line.match(/^\s*/)?.[0] ?? ""));
+	const strip = widths.length > 0 ? Math.min(...widths) : 0;
+	return lines.map((line) => line.replace(/\t/g, "    ").slice(strip));
+}
@@ -0,0 +1,148 @@
+import { Client } from "@notionhq/client";
+import {
+	DataSourceObjectResponse,
+	PageObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints";
+import { App, TFile, TFolder } from "obsidian";
+import { DatabasePropertyMappings } from "./types";
+import { notionRequest } from "./notion-client";
+import { findDatabaseFolder } from "./database-folder";
+import { newPageProperties } from "./property-push";
+import { appendBlocks } from "./content-push";
+import { parseMarkdownBlocks } from "./markdown-to-notion";
+import { notionIdResolver, toHexId } from "./link-resolver";
+import { withContentHash } from "./local-edits";
+
+export interface PublishResult {
+	published: number;
+	errors: string[];
+}
+
+/**
+ * Creates a Notion page for each of the given notes, typically those from
+ * `findNewNotes`, from its frontmatter and body, and stamps the note with
+ * the tracking fields so later syncs treat it as an entry. A note goes to
+ * the data source its `notion-data-source-id` names, or else the first one.
+ * A note is skipped with an error when part of it can't be sent, so nothing
+ * is published incomplete.
+ */
+export async function publishNewNotes(
+	app: App,
+	client: Client,
+	dataSources: DataSourceObjectResponse[],
+	databaseId: string,
+	notes: TFile[],
+	propertyMappings: DatabasePropertyMappings = {}
+): Promise<PublishResult> {
+	const result: PublishResult = { published: 0, errors: [] };
+
+	for (const file of notes) {
+		try {
+			const dataSource = pickDataSource(app, file, dataSources);
+			const { properties, refused } = newPageProperties(
+				app,
+				file,
+				dataSource.properties,
+				propertyMappings
+			);
+			const body = await readBody(app, file);
+			const parsed = body
+				? parseMarkdownBlocks(body, notionIdResolver(app, file.path))
+				: { blocks: [], unsupported: [] };
+			const problems = [
+				...refused.map((name) => `${name} (read-only or invalid value)`),
+				...parsed.unsupported,
+			];
+			if (problems.length > 0) {
+				result.errors.push(`${file.basename}: not published: ${problems.join(", ")}`);
+				continue;
+			}
+
+			const created = (await notionRequest(() =>
+				client.pages.create({
+					parent: { type: "data_source_id", data_source_id: dataSource.id },
+					properties,
+				})
+			)) as PageObjectResponse;
+			if (parsed.blocks.length > 0) {
+				await appendBlocks(client, created.id, parsed.blocks, null);
+			}
+			// Appending blocks moves the last-edited time on
+			const page = (await notionRequest(() =>
+				client.pages.retrieve({ page_id: created.id })
+			)) as PageObjectResponse;
+
+			await app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+				fm["notion-id"] = page.id;
+				fm["notion-url"] = page.url;
+				fm["notion-frozen-at"] = new Date().toISOString();
+				fm["notion-last-edited"] = page.last_edited_time;
+				fm["notion-database-id"] = databaseId;
+				fm["notion-data-source-id"] = dataSource.id;
+			});
+			await app.vault.process(file, withContentHash);
+			result.published++;
+		} catch (err) {
+			result.errors.push(
+				`${file.basename}: ${err instanceof Error ? err.message : String(err)}`
+			);
+			console.error(`Notion sync: Failed to publish ${file.path}:`, err);
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Notes under the database folder without a `notion-id`. Notes below a
+ * nested database's folder belong to that database instead, and conflict
+ * copies of entries are left out.
+ */
+export function findNewNotes(app: App, folderPath: string): TFile[] {
+	const folder = app.vault.getAbstractFileByPath(folderPath);
+	if (!(folder instanceof TFolder)) return [];
+
+	const notes: TFile[] = [];
+	const pending: TFolder[] = [folder];
+	while (pending.length > 0) {
+		const current = pending.pop() as TFolder;
+		for (const child of current.children) {
+			if (child instanceof TFolder) {
+				pending.push(child);
+			} else if (
+				child instanceof TFile &&
+				child.extension === "md" &&
+				isUntracked(app, child) &&
+				findDatabaseFolder(child) === folderPath
+			) {
+				notes.push(child);
+			}
+		}
+	}
+	return notes;
+}
+
+function pickDataSource(
+	app: App,
+	file: TFile,
+	dataSources: DataSourceObjectResponse[]
+): DataSourceObjectResponse {
+	const wanted = app.metadataCache.getFileCache(file)?.frontmatter?.["notion-data-source-id"];
+	if (wanted) {
+		const match = dataSources.find((source) => toHexId(source.id) === toHexId(String(wanted)));
+		if (match) return match;
+	}
+	return dataSources[0];
+}
+
+function isUntracked(app: App, file: TFile): boolean {
+	const fm = app.metadataCache.getFileCache(file)?.frontmatter;
+	return !fm?.["notion-id"] && !fm?.["notion-conflict-of"];
+}
+
+async function readBody(app: App, file: TFile): Promise<string> {
+	const content = (await app.vault.read(file)).replace(/\r\n/g, "\n");
+	const position = app.metadataCache.getFileCache(file)?.frontmatterPosition;
+	const body = position ? content.slice(position.end.offset).replace(/^\n/, "") : content;
+	return body.replace(/\n+$/, "");
+}
@@ -1,5 +1,10 @@
-import { Client } from "@notionhq/client";
+import { APIErrorCode, Client, isNotionClientError } from "@notionhq/client";
+import {
+	DatabaseObjectResponse,
+	PageObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints";
 import { requestUrl } from "obsidian";
+import { NotionTarget } from "./types";
 
 export function createNotionClient(apiKey: string): Client {
 	return new Client({
@@ -78,6 +83,35 @@ export async function notionRequest<T>(fn: () => Promise<T>): Promise<T> {
 	throw new Error("notionRequest: exhausted retries");
 }
 
+/**
+ * Resolves an ID to either a database or a page. The database endpoint is
+ * tried first; a not-found or validation error falls back to the page endpoint.
+ */
+export async function retrieveNotionTarget(
+	client: Client,
+	id: string
+): Promise<NotionTarget> {
+	try {
+		const database = (await notionRequest(() =>
+			client.databases.retrieve({ database_id: id })
+		)) as DatabaseObjectResponse;
+		return { type: "database", database };
+	} catch (err) {
+		if (
+			!isNotionClientError(err) ||
+			(err.code !== APIErrorCode.ObjectNotFound &&
+				err.code !== APIErrorCode.ValidationError)
+		) {
+			throw err;
+		}
+	}
+
+	const page = (await notionRequest(() =>
+		client.pages.retrieve({ page_id: id })
+	)) as PageObjectResponse;
+	return { type: "page", page };
+}
+
 function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
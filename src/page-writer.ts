@@ -1,144 +1,482 @@
+import { Client } from "@notionhq/client";
 import {
 	PageObjectResponse,
 } from "@notionhq/client/build/src/api-endpoints";
 import { App, normalizePath, TFile } from "obsidian";
-import { PageWriteOptions, PageWriteResult } from "./types";
-import { convertBlocksToMarkdown, convertRichText, fetchAllChildren } from "./block-converter";
+import {
+	AttachmentHandler,
+	AttachmentSource,
+	ChildSyncHandler,
+	DatabasePropertyMappings,
+	PageWriteOptions,
+	PropertyMapping,
+	PageWriteResult,
+	StandalonePageWriteOptions,
+} from "./types";
+import {
+	convertBlocksToMarkdown,
+	fetchAllChildren,
+	getPageTitle,
+} from "./block-converter";
+import { sanitizeFileName } from "./entry-naming";
+import { renderBodyTemplate } from "./body-template";
+import {
+	convertPropertyValue,
+	formatDate,
+	formatPerson,
+	NotionPerson,
+} from "./property-converter";
+import {
+	buildNotionTargetIndex,
+	toHexId,
+	UNRESOLVED_RELATION_SUFFIX,
+} from "./link-resolver";
+import {
+	DEFAULT_CONFLICT_POLICY,
+	isLocallyEdited,
+	keepLocalRegions,
+	renameKeepingHashes,
+	withContentHash,
+	writeConflictCopy,
+} from "./local-edits";
 
 export async function writeDatabaseEntry(
 	app: App,
 	options: PageWriteOptions
 ): Promise<PageWriteResult> {
-	const { client, page, outputFolder, databaseId } = options;
+	const {
+		client,
+		page,
+		outputFolder,
+		databaseId,
+		fileName,
+		existingFile,
+		childSync,
+		attachments,
+		propertyMappings,
+		bodyTemplate,
+		conflictPolicy = DEFAULT_CONFLICT_POLICY,
+	} = options;
+	const linkTargets = options.linkTargets ?? buildNotionTargetIndex(app);
 
 	const title = getPageTitle(page);
 	const safeName = sanitizeFileName(title || "Untitled");
-	const filePath = normalizePath(`${outputFolder}/${safeName}.md`);
+	const filePath = normalizePath(`${outputFolder}/${fileName ?? safeName}.md`);
 
-	// Fetch all blocks
-	const blocks = await fetchAllChildren(client, page.id);
-	const markdown = await convertBlocksToMarkdown(blocks, {
-		client,
-		indentLevel: 0,
+	const current = existingFile ? await app.vault.read(existingFile) : "";
+	const locallyEdited = isLocallyEdited(current);
+	if (existingFile && locallyEdited && conflictPolicy === "skip") {
+		return { status: "skipped", filePath: existingFile.path, title: safeName, locallyEdited };
+	}
+
+	const frontmatter = buildTrackingFrontmatter(page);
+	frontmatter["notion-database-id"] = databaseId;
+	if (page.parent.type === "data_source_id") {
+		frontmatter["notion-data-source-id"] = page.parent.data_source_id;
+	}
+
+	const content = await renderPage(app, client, page, frontmatter, {
+		childSync,
+		attachments,
+		propertyMappings,
+		bodyTemplate,
+		linkTargets,
+		filePath,
+	});
+
+	if (existingFile) {
+		const conflictPath = locallyEdited && conflictPolicy === "conflict-copy"
+			? await writeConflictCopy(app, existingFile, current)
+			: undefined;
+		const merged = conflictPolicy === "local-regions"
+			? keepLocalRegions(current, content)
+			: content;
+		const renamedFrom = await moveToPath(app, existingFile, filePath);
+		await app.vault.modify(existingFile, withContentHash(merged));
+		return {
+			status: "updated",
+			filePath: existingFile.path,
+			title: safeName,
+			renamedFrom,
+			locallyEdited,
+			conflictPath,
+		};
+	}
+	return await writePageFile(app, filePath, outputFolder, content, safeName);
+}
+
+/**
+ * Brings a note up to date after its properties were pushed, so it carries
+ * Notion's normalized values and new last-edited time. A note edited
+ * locally only has its frontmatter refreshed: its body edits may not be in
+ * Notion, and the frontmatter edits just were.
+ */
+export async function refreshPushedEntry(
+	app: App,
+	options: PageWriteOptions & { existingFile: TFile }
+): Promise<PageWriteResult> {
+	const { page, existingFile: file, attachments, propertyMappings } = options;
+	if (!isLocallyEdited(await app.vault.read(file))) {
+		return await writeDatabaseEntry(app, options);
+	}
+
+	const linkForId = relationLinker(
+		app,
+		options.linkTargets ?? buildNotionTargetIndex(app),
+		file.path
+	);
+	const fileLinks = await storeFileProperties(page.properties, attachments);
+	await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		Object.assign(frontmatter, buildTrackingFrontmatter(page));
+		mapPropertiesToFrontmatter(page.properties, frontmatter, propertyMappings ?? {}, linkForId, fileLinks);
+	});
+	return {
+		status: "updated",
+		filePath: file.path,
+		title: sanitizeFileName(getPageTitle(page) || "Untitled"),
+		locallyEdited: true,
+	};
+}
+
+/**
+ * Brings a note up to date after its body was pushed. Only the tracking
+ * fields change, so property edits that weren't pushed stay. When every
+ * property still matches Notion, the note holds nothing Notion lacks, and
+ * its hash is re-stamped so the push isn't taken for a local edit.
+ */
+export async function refreshContentPushedEntry(
+	app: App,
+	options: PageWriteOptions & { existingFile: TFile }
+): Promise<PageWriteResult> {
+	const { page, existingFile: file, attachments, propertyMappings } = options;
+	const linkForId = relationLinker(
+		app,
+		options.linkTargets ?? buildNotionTargetIndex(app),
+		file.path
+	);
+	const expected: Record<string, unknown> = {};
+	mapPropertiesToFrontmatter(
+		page.properties,
+		expected,
+		propertyMappings ?? {},
+		linkForId,
+		await storeFileProperties(page.properties, attachments)
+	);
+
+	let inStep = false;
+	await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		Object.assign(frontmatter, buildTrackingFrontmatter(page));
+		inStep = Object.keys(expected).every(
+			(key) => JSON.stringify(frontmatter[key] ?? null) === JSON.stringify(expected[key] ?? null)
+		);
+	});
+	if (inStep) await app.vault.process(file, withContentHash);
+	return {
+		status: "updated",
+		filePath: file.path,
+		title: sanitizeFileName(getPageTitle(page) || "Untitled"),
+		locallyEdited: !inStep,
+	};
+}
+
+/**
+ * Writes a page that is not tracked as part of a synced database. When
+ * `existingFile` is given the page is rewritten in its current folder, so a
+ * re-sync keeps the note wherever the user moved it.
+ */
+export async function writeStandalonePage(
+	app: App,
+	options: StandalonePageWriteOptions
+): Promise<PageWriteResult> {
+	const { client, page, outputFolder, existingFile, childSync, attachments } = options;
+	const linkTargets = options.linkTargets ?? buildNotionTargetIndex(app);
+
+	const title = getPageTitle(page);
+	const safeName = sanitizeFileName(title || "Untitled");
+	const folder = existingFile ? (existingFile.parent?.path ?? "") : outputFolder;
+	const filePath = normalizePath(`${folder}/${safeName}.md`);
+
+	const frontmatter = buildTrackingFrontmatter(page);
+	const content = await renderPage(app, client, page, frontmatter, {
+		childSync,
+		attachments,
+		linkTargets,
+		filePath,
 	});
 
-	// Build frontmatter
-	const frontmatter: Record<string, unknown> = {
+	if (existingFile) {
+		const renamedFrom = await moveToPath(app, existingFile, filePath);
+		await app.vault.modify(existingFile, withContentHash(content));
+		return { status: "updated", filePath: existingFile.path, title: safeName, renamedFrom };
+	}
+
+	return await writePageFile(app, filePath, outputFolder, content, safeName);
+}
+
+/**
+ * Finds the vault note carrying the given `notion-id`, wherever it lives.
+ */
+export function findSyncedFile(app: App, notionId: string): TFile | null {
+	for (const file of app.vault.getMarkdownFiles()) {
+		const cache = app.metadataCache.getFileCache(file);
+		if (cache?.frontmatter?.["notion-id"] === notionId) {
+			return file;
+		}
+	}
+	return null;
+}
+
+function buildTrackingFrontmatter(
+	page: PageObjectResponse
+): Record<string, unknown> {
+	return {
 		"notion-id": page.id,
 		"notion-url": page.url,
 		"notion-frozen-at": new Date().toISOString(),
 		"notion-last-edited": page.last_edited_time,
-		"notion-database-id": databaseId,
 	};
+}
+
+interface RenderOptions {
+	childSync?: ChildSyncHandler;
+	attachments?: AttachmentHandler;
+	propertyMappings?: DatabasePropertyMappings;
+	bodyTemplate?: string;
+	linkTargets: Map<string, TFile>;
+	filePath: string;
+}
+
+async function renderPage(
+	app: App,
+	client: Client,
+	page: PageObjectResponse,
+	frontmatter: Record<string, unknown>,
+	options: RenderOptions
+): Promise<string> {
+	const { childSync, attachments, propertyMappings, bodyTemplate, linkTargets, filePath } = options;
+	const linkForId = relationLinker(app, linkTargets, filePath);
+
+	// Fetch all blocks
+	const blocks = await fetchAllChildren(client, page.id);
+	const markdown = await convertBlocksToMarkdown(blocks, {
+		client,
+		indentLevel: 0,
+		childSync,
+		attachments,
+		// Children live in a subfolder named after the note, beside it
+		childFolder: filePath.replace(/\.md$/, ""),
+	});
+
+	// Map page properties to frontmatter
+	const fileLinks = await storeFileProperties(page.properties, attachments);
+	mapPropertiesToFrontmatter(
+		page.properties,
+		frontmatter,
+		propertyMappings ?? {},
+		linkForId,
+		fileLinks
+	);
 
-	// Map database entry properties to frontmatter
-	mapPropertiesToFrontmatter(page.properties, frontmatter);
+	const body = bodyTemplate
+		? await renderBodyTemplate(bodyTemplate, { page, content: markdown, attachments, linkForId })
+		: markdown;
+	return buildFileContent(frontmatter, body);
+}
 
-	const content = buildFileContent(frontmatter, markdown);
+/**
+ * Renames a note to follow its page's title through the file manager, so
+ * links to it are updated. Returns the previous path, or undefined if the
+ * note was already in place or the target path is taken by another file.
+ */
+async function moveToPath(
+	app: App,
+	file: TFile,
+	targetPath: string
+): Promise<string | undefined> {
+	if (file.path === targetPath) return undefined;
 
-	// Write file
+	const occupant = app.vault.getAbstractFileByPath(targetPath);
+	if (occupant && occupant !== file) {
+		console.warn(
+			`Notion sync: Not renaming ${file.path} to ${targetPath}, the path is already taken.`
+		);
+		return undefined;
+	}
+
+	const previousPath = file.path;
+	const slash = targetPath.lastIndexOf("/");
+	if (slash > 0) await ensureFolder(app, targetPath.slice(0, slash));
+	await renameKeepingHashes(app, file, targetPath);
+	return previousPath;
+}
+
+async function writePageFile(
+	app: App,
+	filePath: string,
+	outputFolder: string,
+	content: string,
+	title: string
+): Promise<PageWriteResult> {
 	const existingFile = app.vault.getAbstractFileByPath(filePath);
 	if (existingFile instanceof TFile) {
-		await app.vault.modify(existingFile, content);
-		return { status: "updated", filePath, title: safeName };
+		await app.vault.modify(existingFile, withContentHash(content));
+		return { status: "updated", filePath, title };
 	} else {
-		await ensureFolder(app, outputFolder);
-		await app.vault.create(filePath, content);
-		return { status: "created", filePath, title: safeName };
+		// The file name may include subfolders below the output folder
+		const slash = filePath.lastIndexOf("/");
+		await ensureFolder(app, slash > 0 ? filePath.slice(0, slash) : outputFolder);
+		await app.vault.create(filePath, withContentHash(content));
+		return { status: "created", filePath, title };
 	}
 }
 
-function getPageTitle(page: PageObjectResponse): string {
-	for (const prop of Object.values(page.properties)) {
-		if (prop.type === "title") {
-			return convertRichText(prop.title);
-		}
-	}
-	return "Untitled";
+// Property types that never produce a frontmatter value
+export const UNMAPPED_PROPERTY_TYPES = new Set(["title", "button"]);
+
+/**
+ * Frontmatter keys a property is written to under the given mapping. Empty
+ * for excluded and unmapped properties; shared with `.base` generation so the
+ * table view lists the same columns the notes contain.
+ */
+export function frontmatterKeysFor(
+	name: string,
+	type: string,
+	mapping: PropertyMapping = {}
+): string[] {
+	if (mapping.exclude || UNMAPPED_PROPERTY_TYPES.has(type)) return [];
+	if (mapping.target && LIST_TARGET_TYPES.has(type)) return [mapping.target];
+	const key = mapping.key || name;
+	if (mapping.splitDate && type === "date") return [`${key}-start`, `${key}-end`];
+	return [key];
 }
 
-function sanitizeFileName(name: string): string {
-	return name.replace(/[\\/:*?"<>|]/g, "-").trim() || "Untitled";
+// Property types that can be sent to `tags` or `aliases`
+export const LIST_TARGET_TYPES = new Set(["select", "multi_select", "status"]);
+
+/**
+ * Renders related page IDs as wikilinks from `filePath`, or null for pages
+ * that aren't in the vault.
+ */
+export function relationLinker(
+	app: App,
+	linkTargets: Map<string, TFile>,
+	filePath: string
+): (id: string) => string | null {
+	return (id) => {
+		const target = linkTargets.get(toHexId(id));
+		return target
+			? `[[${app.metadataCache.fileToLinktext(target, filePath)}]]`
+			: null;
+	};
+}
+
+/**
+ * Downloads the files of `files` properties through the attachment handler,
+ * since Notion's own file URLs expire. Maps each URL to a wikilink to its
+ * local copy.
+ */
+async function storeFileProperties(
+	properties: PageObjectResponse["properties"],
+	attachments: AttachmentHandler | undefined
+): Promise<Map<string, string>> {
+	const links = new Map<string, string>();
+	if (!attachments) return links;
+	for (const prop of Object.values(properties)) {
+		if (prop.type !== "files") continue;
+		for (const file of prop.files) {
+			const source: AttachmentSource = file.type === "file"
+				? { type: "file", url: file.file.url, name: file.name }
+				: { type: "external", url: file.external.url, name: file.name };
+			const path = await attachments.resolve(source);
+			if (path) links.set(source.url, `[[${path}]]`);
+		}
+	}
+	return links;
 }
 
-function mapPropertiesToFrontmatter(
+/**
+ * `fileLinks` maps file URLs to links to their local copies; files without
+ * one keep their URL.
+ */
+export function mapPropertiesToFrontmatter(
 	properties: PageObjectResponse["properties"],
-	frontmatter: Record<string, unknown>
+	frontmatter: Record<string, unknown>,
+	mappings: DatabasePropertyMappings,
+	linkForId: (id: string) => string | null,
+	fileLinks: Map<string, string> = new Map()
 ): void {
-	for (const [key, prop] of Object.entries(properties)) {
+	for (const [name, prop] of Object.entries(properties)) {
+		const mapping = mappings[prop.id] ?? {};
+		const keys = frontmatterKeysFor(name, prop.type, mapping);
+		if (keys.length === 0) continue;
+		const key = keys[0];
+
 		switch (prop.type) {
-			case "title":
-				// Already used as filename, skip
-				break;
-			case "rich_text":
-				frontmatter[key] = convertRichText(
-					prop.rich_text
-				);
-				break;
-			case "number":
-				frontmatter[key] = prop.number;
-				break;
-			case "select":
-				frontmatter[key] = prop.select?.name ?? null;
-				break;
-			case "multi_select":
-				frontmatter[key] = prop.multi_select.map(
-					(s: { name: string }) => s.name
-				);
-				break;
-			case "status":
-				frontmatter[key] = prop.status?.name ?? null;
+			case "relation": {
+				// Related pages not in the vault yet keep their IDs in a
+				// parallel field so a later sync can resolve them
+				const links: string[] = [];
+				const unresolved: string[] = [];
+				for (const r of prop.relation) {
+					const link = linkForId(r.id);
+					if (link) links.push(link);
+					else unresolved.push(r.id);
+				}
+				frontmatter[key] = links;
+				if (unresolved.length > 0) {
+					frontmatter[key + UNRESOLVED_RELATION_SUFFIX] = unresolved;
+				}
 				break;
+			}
 			case "date":
-				if (prop.date) {
-					frontmatter[key] = prop.date.end
-						? `${prop.date.start} → ${prop.date.end}`
-						: prop.date.start;
+				if (keys.length === 2) {
+					frontmatter[keys[0]] = prop.date?.start ?? null;
+					frontmatter[keys[1]] = prop.date?.end ?? null;
 				} else {
-					frontmatter[key] = null;
+					frontmatter[key] = formatDate(prop.date);
 				}
 				break;
-			case "checkbox":
-				frontmatter[key] = prop.checkbox;
-				break;
-			case "url":
-				frontmatter[key] = prop.url;
-				break;
-			case "email":
-				frontmatter[key] = prop.email;
-				break;
-			case "phone_number":
-				frontmatter[key] = prop.phone_number;
-				break;
-			case "relation":
-				frontmatter[key] = prop.relation.map(
-					(r: { id: string }) => r.id
-				);
-				break;
 			case "people":
 				frontmatter[key] = prop.people.map(
-					(p: { id: string; name?: string | null }) => p.name || p.id
+					(p: NotionPerson) => formatPerson(p, mapping.peopleFormat ?? "name")
 				);
 				break;
 			case "files":
-				frontmatter[key] = prop.files.map(
-					(f: { name: string; type: string; file?: { url: string }; external?: { url: string } }) =>
-						f.type === "file" ? f.file?.url : f.external?.url
-				);
-				break;
-			case "created_time":
-				frontmatter[key] = prop.created_time;
-				break;
-			case "last_edited_time":
-				frontmatter[key] = prop.last_edited_time;
+				frontmatter[key] = prop.files.map((file) => {
+					const url = file.type === "file" ? file.file.url : file.external.url;
+					return fileLinks.get(url) ?? url;
+				});
 				break;
-			// Skip formula, rollup, button, unique_id, verification — complex or non-user types
-			default:
+			default: {
+				const value = convertPropertyValue(prop, linkForId);
+				if (value === undefined) break;
+				if (mapping.target && (key === "tags" || key === "aliases")) {
+					appendToList(frontmatter, key, value);
+				} else {
+					frontmatter[key] = value;
+				}
 				break;
+			}
 		}
 	}
 }
 
+/**
+ * Adds values to `tags` or `aliases`, which several properties may share.
+ * Tags can't contain spaces, so those are replaced.
+ */
+function appendToList(
+	frontmatter: Record<string, unknown>,
+	key: "tags" | "aliases",
+	value: unknown
+): void {
+	const existing = Array.isArray(frontmatter[key]) ? (frontmatter[key] as unknown[]) : [];
+	const values = (Array.isArray(value) ? value : [value])
+		.filter((v) => v !== null && v !== "")
+		.map((v) => (key === "tags" ? String(v).replace(/\s+/g, "-") : String(v)));
+	frontmatter[key] = [...existing, ...values.filter((v) => !existing.includes(v))];
+}
+
 function buildFileContent(
 	frontmatter: Record<string, unknown>,
 	body: string
@@ -195,7 +533,7 @@ function yamlEscapeString(str: string): string {
 	return str;
 }
 
-async function ensureFolder(app: App, path: string): Promise<void> {
+export async function ensureFolder(app: App, path: string): Promise<void> {
 	const normalized = normalizePath(path);
 	if (app.vault.getAbstractFileByPath(normalized)) return;
 
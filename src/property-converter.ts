@@ -0,0 +1,147 @@
+import { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import { PeopleFormat } from "./types";
+import { convertRichText } from "./block-converter";
+
+export type PropertyValue = PageObjectResponse["properties"][string];
+type RollupValue = Extract<PropertyValue, { type: "rollup" }>["rollup"];
+type RollupArrayItem = Extract<RollupValue, { type: "array" }>["array"][number];
+type FormulaValue = Extract<PropertyValue, { type: "formula" }>["formula"];
+
+export type NotionPerson = { id: string; name?: string | null; person?: { email?: string } };
+
+export function formatPerson(person: NotionPerson, format: PeopleFormat): string {
+	const name = person.name || person.id;
+	switch (format) {
+		case "email":
+			return person.person?.email || name;
+		case "id":
+			return person.id;
+		case "link":
+			return `[[${name}]]`;
+		default:
+			return name;
+	}
+}
+
+/**
+ * Converts a single property value, including the items of a rollup array.
+ * Returns undefined for types that have no frontmatter representation.
+ */
+export function convertPropertyValue(
+	prop: PropertyValue | RollupArrayItem,
+	linkForId: (id: string) => string | null
+): unknown {
+	switch (prop.type) {
+		case "title":
+			return convertRichText(prop.title);
+		case "rich_text":
+			return convertRichText(prop.rich_text);
+		case "number":
+			return prop.number;
+		case "select":
+			return prop.select?.name ?? null;
+		case "multi_select":
+			return prop.multi_select.map(
+				(s: { name: string }) => s.name
+			);
+		case "status":
+			return prop.status?.name ?? null;
+		case "date":
+			return formatDate(prop.date);
+		case "checkbox":
+			return prop.checkbox;
+		case "url":
+			return prop.url;
+		case "email":
+			return prop.email;
+		case "phone_number":
+			return prop.phone_number;
+		case "relation":
+			return prop.relation.map((r: { id: string }) => linkForId(r.id) ?? r.id);
+		case "people":
+			return prop.people.map((p: NotionPerson) => formatPerson(p, "name"));
+		case "files":
+			return prop.files.map(
+				(f: { name: string; type: string; file?: { url: string }; external?: { url: string } }) =>
+					f.type === "file" ? f.file?.url : f.external?.url
+			);
+		case "created_time":
+			return prop.created_time;
+		case "last_edited_time":
+			return prop.last_edited_time;
+		case "formula":
+			return convertFormula(prop.formula);
+		case "rollup":
+			return convertRollup(prop.rollup, linkForId);
+		case "unique_id":
+			return formatUniqueId(prop.unique_id);
+		case "verification":
+			return prop.verification?.state ?? null;
+		case "created_by":
+			return formatPerson(prop.created_by as NotionPerson, "name");
+		case "last_edited_by":
+			return formatPerson(prop.last_edited_by as NotionPerson, "name");
+		case "place":
+			return formatPlace(prop.place);
+		// Skip button — no useful scalar value
+		default:
+			return undefined;
+	}
+}
+
+function convertFormula(formula: FormulaValue): unknown {
+	switch (formula.type) {
+		case "string":
+			return formula.string;
+		case "number":
+			return formula.number;
+		case "boolean":
+			return formula.boolean;
+		case "date":
+			return formatDate(formula.date);
+		default:
+			return null;
+	}
+}
+
+function convertRollup(
+	rollup: RollupValue,
+	linkForId: (id: string) => string | null
+): unknown {
+	switch (rollup.type) {
+		case "number":
+			return rollup.number;
+		case "date":
+			return formatDate(rollup.date);
+		case "array": {
+			// Flatten so a rollup of multi-selects or relations is one list
+			const items: unknown[] = [];
+			for (const item of rollup.array) {
+				const value = convertPropertyValue(item, linkForId);
+				if (Array.isArray(value)) items.push(...value);
+				else if (value !== undefined && value !== null && value !== "") items.push(value);
+			}
+			return items;
+		}
+		default:
+			return null;
+	}
+}
+
+// The place's name or address, else its coordinates
+function formatPlace(
+	place: { lat: number; lon: number; name?: string | null; address?: string | null } | null
+): string | null {
+	if (!place) return null;
+	return place.name || place.address || `${place.lat}, ${place.lon}`;
+}
+
+export function formatDate(date: { start: string; end: string | null } | null): string | null {
+	if (!date) return null;
+	return date.end ? `${date.start} → ${date.end}` : date.start;
+}
+
+export function formatUniqueId(uniqueId: { prefix: string | null; number: number | null }): string | null {
+	if (uniqueId.number === null) return null;
+	return uniqueId.prefix ? `${uniqueId.prefix}-${uniqueId.number}` : String(uniqueId.number);
+}
@@ -0,0 +1,318 @@
+import { Client } from "@notionhq/client";
+import {
+	DataSourceObjectResponse,
+	PageObjectResponse,
+	UpdatePageParameters,
+} from "@notionhq/client/build/src/api-endpoints";
+import { App, TFile } from "obsidian";
+import { DatabasePropertyMappings } from "./types";
+import { notionRequest } from "./notion-client";
+import { getPageTitle } from "./block-converter";
+import { sanitizeFileName } from "./entry-naming";
+import {
+	frontmatterKeysFor,
+	LIST_TARGET_TYPES,
+	mapPropertiesToFrontmatter,
+	relationLinker,
+} from "./page-writer";
+import {
+	notionIdResolver,
+	toHexId,
+	UNRESOLVED_RELATION_SUFFIX,
+} from "./link-resolver";
+import { NotionIdResolver, parseInlineMarkdown } from "./markdown-to-notion";
+
+type PropertyRequests = NonNullable<UpdatePageParameters["properties"]>;
+
+// Property types that can be written through `pages.update`
+const WRITABLE_TYPES = new Set([
+	"title",
+	"rich_text",
+	"number",
+	"select",
+	"multi_select",
+	"status",
+	"date",
+	"checkbox",
+	"url",
+	"email",
+	"phone_number",
+	"relation",
+]);
+
+export interface PushOptions {
+	propertyMappings?: DatabasePropertyMappings;
+	// Expected file name for the entry as last synced, without folder or
+	// extension. When the note was renamed away from it, the title is pushed.
+	// Omit when file names come from a template other than the title.
+	syncedFileName?: string;
+	linkTargets: Map<string, TFile>;
+}
+
+export interface PushResult {
+	// "conflict" when the page also changed in Notion; nothing is sent then
+	status: "pushed" | "unchanged" | "conflict";
+	title: string;
+	// Notion property names that were sent
+	pushed: string[];
+	// Properties changed locally that can't be sent, e.g. read-only types
+	refused: string[];
+	// The page after the update, or as given when nothing was sent
+	page: PageObjectResponse;
+}
+
+/**
+ * Sends a synced entry's frontmatter edits back to Notion. Local values are
+ * compared with what the last sync wrote, recomputed from `page`, so only
+ * properties the user changed are sent. That only holds while the page is
+ * unchanged in Notion, so an entry edited on both sides is reported as a
+ * conflict and left alone.
+ */
+export async function pushEntryChanges(
+	app: App,
+	client: Client,
+	file: TFile,
+	page: PageObjectResponse,
+	options: PushOptions
+): Promise<PushResult> {
+	const title = getPageTitle(page) || "Untitled";
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+	if (frontmatter["notion-last-edited"] !== page.last_edited_time) {
+		return { status: "conflict", title, pushed: [], refused: [], page };
+	}
+
+	const synced: Record<string, unknown> = {};
+	mapPropertiesToFrontmatter(
+		page.properties,
+		synced,
+		options.propertyMappings ?? {},
+		relationLinker(app, options.linkTargets, file.path)
+	);
+
+	const resolveNotionId = notionIdResolver(app, file.path);
+
+	const properties: PropertyRequests = {};
+	const refused: string[] = [];
+	for (const [name, prop] of Object.entries(page.properties)) {
+		if (prop.type === "title") {
+			const renamed = renamedTitle(file, title, options.syncedFileName);
+			if (renamed !== null) {
+				properties[name] = { title: parseInlineMarkdown(renamed, resolveNotionId) };
+			}
+			continue;
+		}
+
+		// Files are read-only, and Notion's signed file URLs differ on every
+		// request, so they would always look changed
+		if (prop.type === "files") continue;
+
+		const mapping = options.propertyMappings?.[prop.id] ?? {};
+		// tags and aliases mix values from several properties, so they
+		// can't be traced back to one of them
+		if (mapping.target && LIST_TARGET_TYPES.has(prop.type)) continue;
+		const keys = frontmatterKeysFor(name, prop.type, mapping);
+		// A key removed from the note is treated as untouched
+		if (keys.length === 0 || !keys.some((key) => key in frontmatter)) continue;
+
+		const local = readValue(frontmatter, keys, prop.type, resolveNotionId);
+		const previous = readValue(synced, keys, prop.type, resolveNotionId);
+		if (JSON.stringify(local) === JSON.stringify(previous)) continue;
+
+		const request = WRITABLE_TYPES.has(prop.type)
+			? toPropertyRequest(prop.type, local, resolveNotionId)
+			: null;
+		if (request) {
+			properties[name] = request;
+		} else {
+			refused.push(name);
+		}
+	}
+
+	const pushed = Object.keys(properties);
+	if (pushed.length === 0) {
+		return { status: "unchanged", title, pushed, refused, page };
+	}
+
+	const updated = (await notionRequest(() =>
+		client.pages.update({ page_id: page.id, properties })
+	)) as PageObjectResponse;
+	return {
+		status: "pushed",
+		title: getPageTitle(updated) || title,
+		pushed,
+		refused,
+		page: updated,
+	};
+}
+
+/**
+ * Maps a new note's frontmatter onto a data source's schema, for creating
+ * its page. The title comes from the file name. Properties set in the note
+ * that can't be written are listed in `refused`.
+ */
+export function newPageProperties(
+	app: App,
+	file: TFile,
+	schema: DataSourceObjectResponse["properties"],
+	mappings: DatabasePropertyMappings = {}
+): { properties: PropertyRequests; refused: string[] } {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+	const resolveNotionId = notionIdResolver(app, file.path);
+	const properties: PropertyRequests = {};
+	const refused: string[] = [];
+
+	for (const [name, config] of Object.entries(schema)) {
+		if (config.type === "title") {
+			properties[name] = { title: parseInlineMarkdown(file.basename, resolveNotionId) };
+			continue;
+		}
+
+		const mapping = mappings[config.id] ?? {};
+		if (mapping.target && LIST_TARGET_TYPES.has(config.type)) continue;
+		const keys = frontmatterKeysFor(name, config.type, mapping);
+		if (keys.length === 0 || !keys.some((key) => key in frontmatter)) continue;
+
+		const value = readValue(frontmatter, keys, config.type, resolveNotionId);
+		if (isEmptyValue(value)) continue;
+		const request = WRITABLE_TYPES.has(config.type)
+			? toPropertyRequest(config.type, value, resolveNotionId)
+			: null;
+		if (request) {
+			properties[name] = request;
+		} else {
+			refused.push(name);
+		}
+	}
+
+	return { properties, refused };
+}
+
+/**
+ * The new title when the note was renamed since the last sync. Only plain
+ * title file names qualify: a collision suffix or template can't be mapped
+ * back to a title.
+ */
+function renamedTitle(file: TFile, title: string, syncedFileName?: string): string | null {
+	if (syncedFileName === undefined) return null;
+	if (syncedFileName !== sanitizeFileName(title)) return null;
+	return file.basename !== syncedFileName ? file.basename : null;
+}
+
+type NormalizedValue =
+	| string
+	| number
+	| boolean
+	| null
+	| string[]
+	| { start: string | null; end: string | null }
+	| undefined;
+
+/**
+ * Reads a property back from frontmatter into a canonical form, so values
+ * written by the sync and values edited in Obsidian compare equal when they
+ * mean the same thing. Undefined marks a value that can't be understood.
+ */
+function readValue(
+	fm: Record<string, unknown>,
+	keys: string[],
+	type: string,
+	resolveNotionId: NotionIdResolver
+): NormalizedValue {
+	const value = fm[keys[0]];
+	switch (type) {
+		case "number": {
+			if (value === null || value === undefined || value === "") return null;
+			const n = Number(value);
+			return isNaN(n) ? undefined : n;
+		}
+		case "checkbox":
+			return value === true || value === "true";
+		case "multi_select":
+			return toStringList(value);
+		case "date": {
+			if (keys.length === 2) {
+				return { start: toText(value), end: toText(fm[keys[1]]) };
+			}
+			const text = toText(value);
+			if (text === null) return { start: null, end: null };
+			const [start, end] = text.split(/\s*(?:→|->)\s*/);
+			return { start, end: end ?? null };
+		}
+		case "relation": {
+			const ids: string[] = [];
+			for (const link of toStringList(value)) {
+				const match = link.match(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/);
+				const id = match ? resolveNotionId(match[1].trim()) : null;
+				if (!id) return undefined;
+				ids.push(toHexId(id));
+			}
+			for (const id of toStringList(fm[keys[0] + UNRESOLVED_RELATION_SUFFIX])) {
+				ids.push(toHexId(id));
+			}
+			return ids.sort();
+		}
+		default:
+			return Array.isArray(value) ? toStringList(value) : toText(value);
+	}
+}
+
+function toPropertyRequest(
+	type: string,
+	value: NormalizedValue,
+	resolveNotionId: NotionIdResolver
+): PropertyRequests[string] | null {
+	if (value === undefined) return null;
+	const text = typeof value === "string" ? value : null;
+
+	switch (type) {
+		case "rich_text":
+			return { rich_text: text ? parseInlineMarkdown(text, resolveNotionId) : [] };
+		case "number":
+			return typeof value === "number" || value === null ? { number: value } : null;
+		case "select":
+			return { select: text ? { name: text } : null };
+		case "status":
+			// A status can't be cleared
+			return text ? { status: { name: text } } : null;
+		case "multi_select":
+			return Array.isArray(value)
+				? { multi_select: value.map((name) => ({ name })) }
+				: null;
+		case "date": {
+			if (value === null || typeof value !== "object" || Array.isArray(value)) return null;
+			return { date: value.start ? { start: value.start, end: value.end } : null };
+		}
+		case "checkbox":
+			return typeof value === "boolean" ? { checkbox: value } : null;
+		case "url":
+			return { url: text };
+		case "email":
+			return { email: text };
+		case "phone_number":
+			return { phone_number: text };
+		case "relation":
+			return Array.isArray(value) ? { relation: value.map((id) => ({ id })) } : null;
+		default:
+			return null;
+	}
+}
+
+// Unset values are left for Notion to default rather than sent
+function isEmptyValue(value: NormalizedValue): boolean {
+	if (value === null || value === false) return true;
+	if (Array.isArray(value)) return value.length === 0;
+	if (typeof value === "object") return value.start === null;
+	return false;
+}
+
+function toText(value: unknown): string | null {
+	if (value === null || value === undefined) return null;
+	const text = String(value);
+	return text === "" ? null : text;
+}
+
+function toStringList(value: unknown): string[] {
+	if (value === null || value === undefined || value === "") return [];
+	const list = Array.isArray(value) ? value : [value];
+	return list.filter((v) => v !== null && v !== "").map((v) => String(v));
+}
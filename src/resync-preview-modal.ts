@@ -0,0 +1,150 @@
+import { App, ButtonComponent, Modal, Setting, ToggleComponent } from "obsidian";
+import { PlannedChange, PlannedChangeKind, RefreshSelection } from "./types";
+import { RefreshPlan } from "./database-freezer";
+
+const SECTIONS: { kind: PlannedChangeKind; heading: string }[] = [
+	{ kind: "create", heading: "New entries" },
+	{ kind: "update", heading: "Updated entries" },
+	{ kind: "rename", heading: "Renamed or moved entries" },
+	{ kind: "delete", heading: "Deleted in Notion" },
+	{ kind: "restore", heading: "Back in Notion, restored" },
+	{ kind: "filtered-out", heading: "No longer match the filter" },
+	{ kind: "remove-duplicate", heading: "Duplicate copies moved to trash" },
+	{ kind: "publish", heading: "New notes published to Notion" },
+];
+
+/**
+ * Shows what a re-sync would change before anything is written: entries
+ * created, updated, renamed, restored or deleted, and the `.base` file's new
+ * columns. Every change can be unchecked; only the checked ones are applied.
+ */
+export class ResyncPreviewModal extends Modal {
+	private plan: RefreshPlan;
+	private onApply: (selection: RefreshSelection) => void;
+	private selection: RefreshSelection;
+	private applyButton: ButtonComponent | null = null;
+
+	constructor(app: App, plan: RefreshPlan, onApply: (selection: RefreshSelection) => void) {
+		super(app);
+		this.plan = plan;
+		this.onApply = onApply;
+		this.selection = {
+			keys: new Set(plan.changes.map((change) => change.key)),
+			baseFile: plan.baseFile !== null,
+		};
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const { plan } = this;
+
+		contentEl.createEl("h2", { text: `Re-sync preview: ${plan.db.title}` });
+		contentEl.createEl("p", {
+			text: plan.changes.length === 0 && !plan.baseFile
+				? `All ${plan.total} entries are up to date.`
+				: `${plan.total} entries in Notion, ${plan.unchanged} unchanged. Nothing is written until you apply.`,
+		});
+		if (plan.editedSince) {
+			contentEl.createEl("p", {
+				text: `Only entries edited since ${plan.editedSince} were checked. ` +
+					"Deleted entries are found by the next full re-sync.",
+				cls: "setting-item-description",
+			});
+		}
+
+		for (const { kind, heading } of SECTIONS) {
+			const changes = plan.changes.filter((change) => change.kind === kind);
+			if (changes.length > 0) this.renderSection(heading, changes);
+		}
+		this.renderBaseFile();
+
+		new Setting(contentEl)
+			.addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+			.addButton((btn) => {
+				this.applyButton = btn.setCta().onClick(() => {
+					this.close();
+					this.onApply(this.selection);
+				});
+				this.updateApplyButton();
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderSection(heading: string, changes: PlannedChange[]): void {
+		const toggles: ToggleComponent[] = [];
+
+		new Setting(this.contentEl)
+			.setName(`${heading} (${changes.length})`)
+			.setHeading()
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip("Select all")
+					.setValue(true)
+					.onChange((value) => {
+						for (const change of changes) this.select(change.key, value);
+						for (const item of toggles) item.setValue(value);
+						this.updateApplyButton();
+					})
+			);
+
+		for (const change of changes) {
+			const details = [
+				change.previousPath ? `${change.previousPath} → ${change.path}` : change.path,
+				change.locallyEdited ? "edited locally" : "",
+				change.reason === "in-trash" ? "in Notion trash" : "",
+				change.reason === "no-access" ? "not shared with the integration, or deleted for good" : "",
+			];
+			new Setting(this.contentEl)
+				.setName(change.title)
+				.setDesc(details.filter((part) => part.length > 0).join("  ·  "))
+				.addToggle((toggle) => {
+					toggles.push(toggle);
+					toggle.setValue(true).onChange((value) => {
+						this.select(change.key, value);
+						this.updateApplyButton();
+					});
+				});
+		}
+	}
+
+	private renderBaseFile(): void {
+		const change = this.plan.baseFile;
+		if (!change) return;
+
+		const details: string[] = [];
+		if (change.created) {
+			details.push("New file");
+		} else {
+			if (change.previousPath) details.push(`Renamed from ${change.previousPath}`);
+			if (change.added.length > 0) details.push(`Adds columns: ${change.added.join(", ")}`);
+			if (change.removed.length > 0) details.push(`Removes columns: ${change.removed.join(", ")}`);
+			if (details.length === 0) details.push("Filters or layout change");
+		}
+
+		new Setting(this.contentEl).setName("Base file").setHeading();
+		new Setting(this.contentEl)
+			.setName(change.path)
+			.setDesc(details.join("  ·  "))
+			.addToggle((toggle) =>
+				toggle.setValue(true).onChange((value) => {
+					this.selection.baseFile = value;
+					this.updateApplyButton();
+				})
+			);
+	}
+
+	private select(key: string, selected: boolean): void {
+		if (selected) this.selection.keys.add(key);
+		else this.selection.keys.delete(key);
+	}
+
+	private updateApplyButton(): void {
+		const count = this.selection.keys.size + (this.selection.baseFile ? 1 : 0);
+		this.applyButton
+			?.setButtonText(count === 1 ? "Apply 1 change" : `Apply ${count} changes`)
+			.setDisabled(count === 0);
+	}
+}
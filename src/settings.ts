@@ -1,5 +1,7 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import NotionFreezePlugin from "./main";
+import { listDatabases } from "./sync-registry";
+import { DatabaseSettingsModal } from "./database-settings-modal";
 
 export class NotionFreezeSettingTab extends PluginSettingTab {
 	plugin: NotionFreezePlugin;
@@ -44,5 +46,130 @@ export class NotionFreezeSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Sync child pages and databases")
+			.setDesc(
+				"Recursively sync child pages into a subfolder beside their parent note, " +
+				"and import inline databases as their own synced databases."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncChildren)
+					.onChange(async (value) => {
+						this.plugin.settings.syncChildren = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Download attachments")
+			.setDesc(
+				"Save images and files hosted by Notion into the vault. " +
+				"Notion's file links expire after about an hour."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.downloadAttachments)
+					.onChange(async (value) => {
+						this.plugin.settings.downloadAttachments = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Download external attachments")
+			.setDesc("Also save images and files that Notion links to on other sites.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.downloadExternalAttachments)
+					.onChange(async (value) => {
+						this.plugin.settings.downloadExternalAttachments = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Attachments folder")
+			.setDesc("Where downloaded attachments are saved.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Notion/Attachments")
+					.setValue(this.plugin.settings.attachmentsFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentsFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Duplicate title suffix")
+			.setDesc(
+				"Database entries whose titles map to the same file name get this appended, " +
+				"e.g. \"Meeting (1a2b3c4d)\". Each entry keeps its name across syncs."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("short-id", "Short page ID")
+					.addOption("unique-id", "Unique ID property")
+					.setValue(this.plugin.settings.collisionSuffix)
+					.onChange(async (value) => {
+						this.plugin.settings.collisionSuffix =
+							value === "unique-id" ? "unique-id" : "short-id";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Full re-sync interval")
+			.setDesc(
+				"Days between re-syncs that query every database entry, which is when " +
+				"entries deleted in Notion are found. Re-syncs in between only query " +
+				"entries edited since the last one, unless started with Full re-sync. " +
+				"0 queries every entry each time."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("7")
+					.setValue(String(this.plugin.settings.fullSyncIntervalDays))
+					.onChange(async (value) => {
+						const days = Number(value);
+						if (value.trim() === "" || isNaN(days) || days < 0) return;
+						this.plugin.settings.fullSyncIntervalDays = days;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl).setName("Databases").setHeading();
+
+		const databases = listDatabases(this.plugin.settings.databases);
+		if (databases.length === 0) {
+			containerEl.createEl("p", {
+				text: "Sync a database to configure its file names, folders and properties.",
+				cls: "setting-item-description",
+			});
+		}
+		for (const db of databases) {
+			const customized = Object.keys(
+				this.plugin.settings.propertyMappings[db.databaseId] ?? {}
+			).length;
+			const templated = this.plugin.settings.databaseSettings[db.databaseId] !== undefined;
+			new Setting(containerEl)
+				.setName(db.title)
+				.setDesc(
+					[
+						db.folderPath,
+						templated ? "customized" : "",
+						customized > 0
+							? `${customized} customized ${customized === 1 ? "property" : "properties"}`
+							: "",
+					].filter((part) => part.length > 0).join("  \u00b7  ")
+				)
+				.addButton((btn) =>
+					btn.setButtonText("Configure").onClick(() => {
+						new DatabaseSettingsModal(this.app, this.plugin, db).open();
+					})
+				);
+		}
 	}
 }
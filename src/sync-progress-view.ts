@@ -0,0 +1,151 @@
+import { ButtonComponent, ItemView, Setting, WorkspaceLeaf } from "obsidian";
+import { estimateRemaining, formatDuration, SyncActivity, SyncTracker } from "./sync-progress";
+
+export const SYNC_PROGRESS_VIEW = "notion-sync-progress";
+
+/**
+ * Side pane following the running sync: its entry count, the entry being
+ * written, time left, errors as they come in, and a button to cancel it.
+ */
+export class SyncProgressView extends ItemView {
+	private tracker: SyncTracker;
+	private unsubscribe: (() => void) | null = null;
+	private elements: ProgressElements | null = null;
+	// Activity the error list was filled from
+	private shown: SyncActivity | null = null;
+
+	constructor(leaf: WorkspaceLeaf, tracker: SyncTracker) {
+		super(leaf);
+		this.tracker = tracker;
+	}
+
+	getViewType(): string {
+		return SYNC_PROGRESS_VIEW;
+	}
+
+	getDisplayText(): string {
+		return "Notion sync";
+	}
+
+	getIcon(): string {
+		return "notion-db-sync";
+	}
+
+	async onOpen(): Promise<void> {
+		this.build();
+		this.unsubscribe = this.tracker.onChange(() => this.update());
+		// The time estimate moves on even between entries
+		this.registerInterval(window.setInterval(() => this.update(), 5000));
+		this.update();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.contentEl.empty();
+	}
+
+	// Built once; updates only change text and visibility, so the Cancel
+	// button stays clickable while entries are written
+	private build(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const idleEl = contentEl.createEl("p", {
+			text: "No sync has run since Obsidian started.",
+			cls: "setting-item-description",
+		});
+		const activityEl = contentEl.createDiv();
+		const titleEl = activityEl.createEl("h4");
+		const messageEl = activityEl.createEl("p");
+		const countsEl = activityEl.createDiv();
+		const bar = countsEl.createEl("progress", { cls: "notion-sync-progress-bar" });
+		const detailsEl = countsEl.createEl("p");
+		const entryEl = activityEl.createEl("p", { cls: "setting-item-description" });
+
+		const cancelSetting = new Setting(activityEl);
+		const cancelButton = new ButtonComponent(cancelSetting.controlEl)
+			.setButtonText("Cancel")
+			.setWarning()
+			.onClick(() => this.tracker.cancel());
+
+		const errorsEl = activityEl.createDiv();
+		const errorsHeading = errorsEl.createEl("h5");
+		const errorList = errorsEl.createEl("ul");
+
+		this.elements = {
+			idleEl,
+			activityEl,
+			titleEl,
+			messageEl,
+			countsEl,
+			bar,
+			detailsEl,
+			entryEl,
+			cancelEl: cancelSetting.settingEl,
+			cancelButton,
+			errorsEl,
+			errorsHeading,
+			errorList,
+		};
+	}
+
+	private update(): void {
+		const el = this.elements;
+		if (!el) return;
+
+		const activity = this.tracker.activity;
+		el.idleEl.toggle(!activity);
+		el.activityEl.toggle(!!activity);
+		if (!activity) return;
+
+		// A new sync starts with an empty error list
+		if (activity !== this.shown) {
+			el.errorList.empty();
+			this.shown = activity;
+		}
+
+		el.titleEl.setText(activity.title);
+		el.messageEl.setText(activity.message);
+
+		el.countsEl.toggle(activity.total > 0);
+		if (activity.total > 0) {
+			el.bar.max = activity.total;
+			el.bar.value = activity.current;
+			const details = [`${activity.current} / ${activity.total} entries`];
+			const remaining = activity.state === "running"
+				? estimateRemaining(activity, Date.now())
+				: null;
+			if (remaining !== null) details.push(`about ${formatDuration(remaining)} left`);
+			el.detailsEl.setText(details.join("  ·  "));
+		}
+
+		el.entryEl.toggle(!!activity.entryTitle);
+		el.entryEl.setText(activity.entryTitle ?? "");
+
+		el.cancelEl.toggle(activity.state !== "finished");
+		el.cancelButton.setDisabled(activity.state === "cancelling");
+
+		el.errorsEl.toggle(activity.errors.length > 0);
+		el.errorsHeading.setText(`Errors (${activity.errors.length})`);
+		for (const error of activity.errors.slice(el.errorList.childElementCount)) {
+			el.errorList.createEl("li", { text: error });
+		}
+	}
+}
+
+interface ProgressElements {
+	idleEl: HTMLElement;
+	activityEl: HTMLElement;
+	titleEl: HTMLElement;
+	messageEl: HTMLElement;
+	countsEl: HTMLElement;
+	bar: HTMLProgressElement;
+	detailsEl: HTMLElement;
+	entryEl: HTMLElement;
+	cancelEl: HTMLElement;
+	cancelButton: ButtonComponent;
+	errorsEl: HTMLElement;
+	errorsHeading: HTMLElement;
+	errorList: HTMLElement;
+}
@@ -0,0 +1,145 @@
+import { ProgressCallback } from "./types";
+
+/** What the running sync, or the last one, is doing. */
+export interface SyncActivity {
+	title: string;
+	message: string;
+	current: number;
+	total: number;
+	// Entry being written or pushed
+	entryTitle: string | null;
+	// When the first entry seen was written, and its count, for the time
+	// estimate; a resumed import starts partway through
+	entriesStartedAt: number | null;
+	entriesStartedFrom: number;
+	errors: string[];
+	state: "running" | "cancelling" | "finished";
+}
+
+/**
+ * Follows syncs for the status bar and the progress view. Syncs are
+ * serialized, so one activity at a time is enough; the last one stays
+ * around after it finishes so its errors can still be read.
+ */
+export interface SyncTracker {
+	readonly activity: SyncActivity | null;
+	// Starts following a sync; the returned callback feeds its progress
+	start(title: string, controller: AbortController): ProgressCallback;
+	finish(): void;
+	// Aborts the running sync, which stops at the next entry or request
+	cancel(): void;
+	// Returns a function that removes the listener
+	onChange(listener: () => void): () => void;
+}
+
+export function createSyncTracker(): SyncTracker {
+	let activity: SyncActivity | null = null;
+	let controller: AbortController | null = null;
+	const listeners = new Set<() => void>();
+	const changed = () => listeners.forEach((listener) => listener());
+
+	return {
+		get activity(): SyncActivity | null {
+			return activity;
+		},
+
+		start(title: string, abort: AbortController): ProgressCallback {
+			controller = abort;
+			const current: SyncActivity = {
+				title,
+				message: "Starting...",
+				current: 0,
+				total: 0,
+				entryTitle: null,
+				entriesStartedAt: null,
+				entriesStartedFrom: 0,
+				errors: [],
+				state: "running",
+			};
+			activity = current;
+			changed();
+
+			return (progress) => {
+				switch (progress.phase) {
+					case "querying":
+						current.message = "Querying Notion...";
+						break;
+					case "diffing":
+						current.message = "Comparing with the vault...";
+						break;
+					case "detected":
+						current.message = `${progress.staleCount} of ${progress.total} entries out of date`;
+						break;
+					case "importing":
+					case "pushing":
+						current.message = progress.phase === "importing"
+							? "Writing entries..."
+							: "Pushing entries...";
+						// A count that starts over is a new pass, such as the writes after a push
+						if (
+							current.entriesStartedAt === null ||
+							progress.current === 1 ||
+							progress.current < current.current
+						) {
+							current.entriesStartedAt = Date.now();
+							current.entriesStartedFrom = progress.current;
+						}
+						current.current = progress.current;
+						current.total = progress.total;
+						current.entryTitle = progress.title ?? null;
+						break;
+					case "failed":
+						current.errors.push(progress.message);
+						break;
+					case "done":
+						current.message = "Done";
+						current.entryTitle = null;
+						break;
+				}
+				changed();
+			};
+		},
+
+		finish(): void {
+			if (activity) {
+				activity.state = "finished";
+				activity.entryTitle = null;
+				if (controller?.signal.aborted) activity.message = "Cancelled";
+			}
+			controller = null;
+			changed();
+		},
+
+		cancel(): void {
+			if (!controller || !activity) return;
+			controller.abort();
+			activity.state = "cancelling";
+			activity.message = "Cancelling after the current entry...";
+			changed();
+		},
+
+		onChange(listener: () => void): () => void {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+	};
+}
+
+/**
+ * Estimated time left, from the average time per entry written so far.
+ * Null until there is enough to go on.
+ */
+export function estimateRemaining(activity: SyncActivity, now: number): number | null {
+	const done = activity.current - activity.entriesStartedFrom;
+	if (activity.entriesStartedAt === null || done < 1) return null;
+	const perEntry = (now - activity.entriesStartedAt) / done;
+	return perEntry * (activity.total - activity.current + 1);
+}
+
+export function formatDuration(ms: number): string {
+	const minutes = Math.round(ms / 60000);
+	if (minutes < 1) return "less than a minute";
+	if (minutes < 60) return `${minutes} min`;
+	const hours = Math.floor(minutes / 60);
+	return `${hours} h ${minutes % 60} min`;
+}
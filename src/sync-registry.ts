@@ -0,0 +1,117 @@
+import { App, TFolder } from "obsidian";
+import { FrozenDatabase } from "./types";
+import { findDatabaseFolder } from "./database-folder";
+
+/**
+ * Records a database in the sync registry after an import or re-sync,
+ * keeping the outcome stored for its previous run.
+ */
+export function registerDatabase(
+	registry: Record<string, FrozenDatabase>,
+	entry: Omit<FrozenDatabase, "lastSync">
+): void {
+	registry[entry.databaseId] = { ...entry, lastSync: registry[entry.databaseId]?.lastSync };
+}
+
+/** Registered databases, sorted by title. */
+export function listDatabases(registry: Record<string, FrozenDatabase>): FrozenDatabase[] {
+	return Object.values(registry).sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * The folder a database is synced to, or null when it isn't registered or
+ * its folder was deleted since.
+ */
+export function findRegisteredFolder(
+	app: App,
+	registry: Record<string, FrozenDatabase> | undefined,
+	databaseId: string
+): string | null {
+	const entry = registry?.[databaseId];
+	if (!entry) return null;
+	return hasDatabaseFolder(app, entry) ? entry.folderPath : null;
+}
+
+/**
+ * Whether a registered database's folder is still in the vault. Syncs skip
+ * databases whose folder is gone rather than importing them again.
+ */
+export function hasDatabaseFolder(app: App, db: { folderPath: string }): boolean {
+	return db.folderPath === "" || app.vault.getAbstractFileByPath(db.folderPath) instanceof TFolder;
+}
+
+/**
+ * Follows a renamed or moved folder, updating the databases synced or being
+ * imported to it or below it. Returns whether any changed.
+ */
+export function moveRegisteredFolders(
+	registry: Record<string, { folderPath: string }>,
+	oldPath: string,
+	newPath: string
+): boolean {
+	let changed = false;
+	for (const entry of Object.values(registry)) {
+		if (entry.folderPath === oldPath) {
+			entry.folderPath = newPath;
+			changed = true;
+		} else if (entry.folderPath.startsWith(oldPath + "/")) {
+			entry.folderPath = newPath + entry.folderPath.slice(oldPath.length);
+			changed = true;
+		}
+	}
+	return changed;
+}
+
+/**
+ * Drops the databases synced or being imported to a deleted folder or below
+ * it. Their notes went with the folder. Returns whether any were dropped.
+ */
+export function forgetRegisteredFolders(
+	registry: Record<string, { folderPath: string }>,
+	deletedPath: string
+): boolean {
+	let changed = false;
+	for (const [id, entry] of Object.entries(registry)) {
+		if (entry.folderPath === deletedPath || entry.folderPath.startsWith(deletedPath + "/")) {
+			delete registry[id];
+			changed = true;
+		}
+	}
+	return changed;
+}
+
+/**
+ * Builds registry entries for databases synced before the registry existed,
+ * by grouping the vault's notes on their `notion-database-id` frontmatter.
+ * Titles come from folder names until the next sync records the real ones.
+ */
+export function scanSyncedDatabases(app: App): FrozenDatabase[] {
+	const dbMap = new Map<string, FrozenDatabase>();
+
+	for (const file of app.vault.getMarkdownFiles()) {
+		const cache = app.metadataCache.getFileCache(file);
+		const dbId = cache?.frontmatter?.["notion-database-id"];
+		if (!dbId) continue;
+
+		const existing = dbMap.get(dbId);
+		if (existing) {
+			existing.entryCount++;
+		} else {
+			const folderPath = findDatabaseFolder(file) || "";
+			dbMap.set(dbId, {
+				databaseId: dbId,
+				dataSourceIds: [],
+				title: folderName(folderPath),
+				folderPath,
+				entryCount: 1,
+			});
+		}
+	}
+
+	return Array.from(dbMap.values());
+}
+
+function folderName(path: string): string {
+	const idx = path.lastIndexOf("/");
+	return idx >= 0 ? path.slice(idx + 1) : path || "Untitled";
+}
@@ -0,0 +1,75 @@
+import { DatabaseSettings, SyncRun } from "./types";
+
+// How often the plugin checks whether a scheduled re-sync is due
+export const SCHEDULE_CHECK_MS = 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+export const DEFAULT_SCHEDULE_MINUTES = 30;
+
+/**
+ * Runs syncs one at a time, in the order they were queued, so two syncs
+ * never write to the vault at once.
+ */
+export interface SyncQueue {
+	run<T>(key: string, task: () => Promise<T>): Promise<T>;
+	// Whether a sync for `key` is running or waiting
+	has(key: string): boolean;
+	readonly busy: boolean;
+}
+
+export function createSyncQueue(): SyncQueue {
+	let tail: Promise<unknown> = Promise.resolve();
+	const pending: string[] = [];
+
+	return {
+		run<T>(key: string, task: () => Promise<T>): Promise<T> {
+			pending.push(key);
+			const result = tail.then(task);
+			const settled = result.then(
+				() => undefined,
+				() => undefined
+			);
+			tail = settled;
+			void settled.then(() => pending.splice(pending.indexOf(key), 1));
+			return result;
+		},
+		has(key: string): boolean {
+			return pending.includes(key);
+		},
+		get busy(): boolean {
+			return pending.length > 0;
+		},
+	};
+}
+
+/**
+ * Whether a database's schedule calls for a re-sync now. "startup" is only
+ * due when the vault opens; interval schedules are due once the interval has
+ * passed since the last run, so one missed while Obsidian was closed runs
+ * when it next opens.
+ */
+export function isSyncDue(
+	settings: DatabaseSettings,
+	lastRun: SyncRun | undefined,
+	now: number,
+	startup: boolean
+): boolean {
+	if (settings.schedule === "startup") return startup;
+	const interval = scheduleInterval(settings);
+	if (interval === null) return false;
+	if (!lastRun) return true;
+	return now - new Date(lastRun.finishedAt).getTime() >= interval;
+}
+
+function scheduleInterval(settings: DatabaseSettings): number | null {
+	switch (settings.schedule) {
+		case "minutes":
+			return Math.max(1, settings.scheduleMinutes ?? DEFAULT_SCHEDULE_MINUTES) * MINUTE_MS;
+		case "hourly":
+			return 60 * MINUTE_MS;
+		case "daily":
+			return 24 * 60 * MINUTE_MS;
+		default:
+			return null;
+	}
+}
@@ -1,16 +1,191 @@
 import { Client } from "@notionhq/client";
-import { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import {
+	DatabaseObjectResponse,
+	PageObjectResponse,
+	QueryDataSourceParameters,
+} from "@notionhq/client/build/src/api-endpoints";
+import { TFile } from "obsidian";
 
 export interface NotionFreezeSettings {
 	apiKey: string;
 	defaultOutputFolder: string;
+	syncChildren: boolean;
+	downloadAttachments: boolean;
+	downloadExternalAttachments: boolean;
+	attachmentsFolder: string;
+	collisionSuffix: CollisionSuffix;
+	// Database ID → property mappings for that database
+	propertyMappings: Record<string, DatabasePropertyMappings>;
+	// Database ID → file layout options for that database
+	databaseSettings: Record<string, DatabaseSettings>;
+	// Re-syncs query every entry this often, in days, and otherwise only
+	// entries edited since the last sync. 0 always queries everything.
+	fullSyncIntervalDays: number;
+	// Database ID → where its last sync left off
+	syncState: Record<string, DatabaseSyncState>;
+	// Database ID → the synced database, as of its last sync
+	databases: Record<string, FrozenDatabase>;
+	// Database ID → how far an unfinished import got
+	imports: Record<string, ImportCheckpoint>;
 }
 
 export const DEFAULT_SETTINGS: NotionFreezeSettings = {
 	apiKey: "",
 	defaultOutputFolder: "Notion",
+	syncChildren: false,
+	downloadAttachments: true,
+	downloadExternalAttachments: false,
+	attachmentsFolder: "Notion/Attachments",
+	collisionSuffix: "short-id",
+	propertyMappings: {},
+	databaseSettings: {},
+	fullSyncIntervalDays: 7,
+	syncState: {},
+	databases: {},
+	imports: {},
 };
 
+/** Where a database's last sync left off, for incremental re-syncs. */
+export interface DatabaseSyncState {
+	// Latest last_edited_time among the entries synced so far
+	highWaterMark: string;
+	// When every entry was last queried, which is when deletions are found
+	lastFullSync: string;
+	// The file naming options and filter in effect, since changing them
+	// can affect entries that weren't edited
+	settingsKey: string;
+}
+
+/**
+ * A synced database as recorded in the sync registry. Its per-database
+ * options live in `databaseSettings`, `propertyMappings` and `syncState`
+ * under the same ID.
+ */
+export interface FrozenDatabase {
+	databaseId: string;
+	// The data sources synced last time
+	dataSourceIds: string[];
+	// The database's title in Notion
+	title: string;
+	folderPath: string;
+	entryCount: number;
+	lastSync?: SyncRun;
+}
+
+/** The outcome of a database's last import or re-sync. */
+export interface SyncRun {
+	finishedAt: string;
+	scheduled: boolean;
+	ok: boolean;
+	// The result notice, or the error message
+	summary: string;
+}
+
+/**
+ * How far an import got, saved as it goes so one that was cancelled or cut
+ * off by Obsidian closing continues where it stopped. Removed once the
+ * import completes.
+ */
+export interface ImportCheckpoint {
+	databaseId: string;
+	title: string;
+	folderPath: string;
+	startedAt: string;
+	// Data sources, naming and filter in effect; the import starts over
+	// if they change
+	settingsKey: string;
+	// Entry IDs queried so far, in query order
+	queried: string[];
+	// Each page of query results, in order, so the entries of one can be
+	// fetched again in a single request
+	pages: QueriedPage[];
+	// The data source being queried and the cursor to continue it from.
+	// Querying is done once the index is past the last data source.
+	sourceIndex: number;
+	cursor?: string;
+	// Latest last_edited_time among the queried entries
+	highWaterMark: string;
+	// Entry ID → file name, assigned once querying is done
+	fileNames?: Record<string, string>;
+	// Entry IDs whose notes have been written
+	written: string[];
+}
+
+/** One page of an import's query results; see `ImportCheckpoint`. */
+export interface QueriedPage {
+	sourceIndex: number;
+	// Cursor the page was queried from; unset for a data source's first page
+	cursor?: string;
+	// Entry IDs it added to `queried`
+	count: number;
+}
+
+/** Per-database options, edited from the settings tab. */
+export interface DatabaseSettings {
+	// Entry file name, e.g. "{{unique_id}} {{title}}"
+	fileNameTemplate?: string;
+	// Subfolder for each entry, e.g. "{{Status}}" or "{{created_time:YYYY/MM}}"
+	folderTemplate?: string;
+	// Note body layout, e.g. "{{heading}}\n\n{{content}}"
+	bodyTemplate?: string;
+	// Create Notion pages for notes added to the folder without a notion-id
+	publishNewNotes?: boolean;
+	// IDs of the data sources to sync; all of them when unset
+	dataSources?: string[];
+	conflictPolicy?: ConflictPolicy;
+	// Notion query filter and sorts; only matching entries are synced
+	filter?: EntryFilter;
+	sorts?: EntrySorts;
+	outOfFilterPolicy?: OutOfFilterPolicy;
+	deletionPolicy?: DeletionPolicy;
+	// Re-sync in the background; off when unset
+	schedule?: SyncSchedule;
+	// Interval for the "minutes" schedule
+	scheduleMinutes?: number;
+}
+
+/** What is appended to entries whose titles map to the same file name. */
+export type CollisionSuffix = "short-id" | "unique-id";
+
+export type PeopleFormat = "name" | "email" | "id" | "link";
+
+export type EntryFilter = NonNullable<QueryDataSourceParameters["filter"]>;
+export type EntrySorts = NonNullable<QueryDataSourceParameters["sorts"]>;
+
+// What a re-sync does with the note of an entry that stopped matching the
+// database's filter: add `notion-filtered-out: true`, leave it, or trash it
+export type OutOfFilterPolicy = "flag" | "keep" | "trash";
+
+// When a database re-syncs on its own: every `scheduleMinutes`, hourly,
+// daily, or once each time the vault is opened
+export type SyncSchedule = "minutes" | "hourly" | "daily" | "startup";
+
+// What a re-sync does with the note of an entry deleted in Notion: add
+// `notion-deleted: true`, also move it to the `_archive` subfolder, or trash it
+export type DeletionPolicy = "flag" | "archive" | "trash";
+
+// Why an entry is gone: it is in Notion's trash, or Notion no longer returns
+// it at all, because it was unshared from the integration or deleted for good
+export type DeletionReason = "in-trash" | "no-access";
+
+// What a re-sync does with a note edited since the sync last wrote it
+export type ConflictPolicy = "overwrite" | "skip" | "conflict-copy" | "local-regions";
+
+/** How one Notion property is written to frontmatter. */
+export interface PropertyMapping {
+	// Frontmatter key; defaults to the Notion property name
+	key?: string;
+	exclude?: boolean;
+	// Send select, multi-select or status values to an Obsidian list property
+	target?: "tags" | "aliases";
+	// Write date ranges as `<key>-start` and `<key>-end`
+	splitDate?: boolean;
+	peopleFormat?: PeopleFormat;
+}
+
+/** Keyed by Notion property ID, which survives property renames. */
+export type DatabasePropertyMappings = Record<string, PropertyMapping>;
+
 export interface FreezeFrontmatter {
 	"notion-id": string;
 	"notion-url": string;
@@ -18,6 +193,7 @@ export interface FreezeFrontmatter {
 	"notion-last-edited": string;
 	"notion-database-id"?: string;
 	"notion-deleted"?: boolean;
+	"notion-deleted-reason"?: DeletionReason;
 	[key: string]: unknown;
 }
 
@@ -26,31 +202,185 @@ export interface PageWriteOptions {
 	page: PageObjectResponse;
 	outputFolder: string;
 	databaseId: string;
+	// Path relative to outputFolder, without extension; may include
+	// subfolders. Defaults to the sanitized title.
+	fileName?: string;
+	// Local note already tracking this entry; renamed if the title changed
+	existingFile?: TFile;
+	childSync?: ChildSyncHandler;
+	attachments?: AttachmentHandler;
+	propertyMappings?: DatabasePropertyMappings;
+	// Lays out the body around the page content; see renderBodyTemplate
+	bodyTemplate?: string;
+	// notion-id → vault file, for rendering relations as wikilinks
+	linkTargets?: Map<string, TFile>;
+	// Applies to existingFile when it was edited locally; defaults to
+	// DEFAULT_CONFLICT_POLICY
+	conflictPolicy?: ConflictPolicy;
+}
+
+export interface StandalonePageWriteOptions {
+	client: Client;
+	page: PageObjectResponse;
+	outputFolder: string;
+	existingFile?: TFile;
+	childSync?: ChildSyncHandler;
+	attachments?: AttachmentHandler;
+	linkTargets?: Map<string, TFile>;
+}
+
+/**
+ * Mirrors `child_page` and `child_database` blocks into the vault. Each
+ * method returns the link target of the file it wrote, or null when the child
+ * could not be synced and the converter should fall back to plain output.
+ */
+export interface ChildSyncHandler {
+	syncChildPage(pageId: string, parentFolder: string): Promise<string | null>;
+	syncChildDatabase(databaseId: string, parentFolder: string): Promise<string | null>;
 }
 
 export interface PageWriteResult {
-	status: "created" | "updated";
+	// "skipped" when local edits were kept under the skip policy
+	status: "created" | "updated" | "skipped";
 	filePath: string;
 	title: string;
+	// Set when an existing note was moved to follow a title change
+	renamedFrom?: string;
+	// The existing note had been edited since the sync last wrote it
+	locallyEdited?: boolean;
+	// Where the local version was saved under the conflict-copy policy
+	conflictPath?: string;
+}
+
+export interface AttachmentSource {
+	type: "file" | "external";
+	url: string;
+	name?: string;
+}
+
+/**
+ * Keeps local copies of files referenced by Notion blocks. Returns the vault
+ * path of the copy, or null when the block should keep linking to the URL.
+ */
+export interface AttachmentHandler {
+	resolve(source: AttachmentSource): Promise<string | null>;
+}
+
+/** Options shared by every database and page written during one sync run. */
+export interface DatabaseSyncOptions {
+	childSync?: ChildSyncHandler;
+	attachments?: AttachmentHandler;
+	// Database ID → property mappings, as stored in settings
+	propertyMappings?: Record<string, DatabasePropertyMappings>;
+	collisionSuffix?: CollisionSuffix;
+	// Database ID → file layout options, as stored in settings
+	databaseSettings?: Record<string, DatabaseSettings>;
+	fullSyncIntervalDays?: number;
+	// Database ID → sync state, as stored in settings. Updated in place
+	// after each complete sync.
+	syncState?: Record<string, DatabaseSyncState>;
+	// Database ID → registry entry, as stored in settings. Updated in place
+	// after each import and re-sync.
+	registry?: Record<string, FrozenDatabase>;
+	// Database ID → import checkpoint, as stored in settings. Updated in
+	// place while importing; `saveCheckpoint` persists it.
+	imports?: Record<string, ImportCheckpoint>;
+	saveCheckpoint?: () => Promise<void>;
+	// Stops the sync between entries and between paginated requests
+	signal?: AbortSignal;
 }
 
+export type NotionTarget =
+	| { type: "database"; database: DatabaseObjectResponse }
+	| { type: "page"; page: PageObjectResponse };
+
 export interface DatabaseSyncResult {
 	title: string;
 	folderPath: string;
+	basePath: string;
 	total: number;
 	created: number;
 	updated: number;
+	renamed: number;
 	skipped: number;
 	deleted: number;
+	// Notes marked deleted or filtered out whose entries came back
+	restored: number;
+	// Local notes created as new entries in Notion
+	published: number;
+	// Entries that stopped matching the database's filter
+	filteredOut: number;
+	// Notes found edited locally, and conflict copies saved of them
+	localEdits: number;
+	conflictCopies: number;
 	failed: number;
 	errors: string[];
 }
 
+export interface DatabasePushResult {
+	title: string;
+	// Entries with at least one property sent to Notion
+	pushed: number;
+	unchanged: number;
+	// Titles of entries edited both locally and in Notion since the last sync
+	conflicts: string[];
+	// "Entry: Property" for local edits that can't be sent, e.g. to formulas
+	refused: string[];
+	failed: number;
+	errors: string[];
+}
+
+export type PlannedChangeKind =
+	| "create"
+	| "update"
+	| "rename"
+	| "delete"
+	| "restore"
+	| "filtered-out"
+	| "remove-duplicate"
+	| "publish";
+
+/** One change a re-sync would make, as listed in its preview. */
+export interface PlannedChange {
+	// Notion page ID, or the note's path for duplicates and notes to publish
+	key: string;
+	kind: PlannedChangeKind;
+	title: string;
+	// Where the note ends up; its current path when deleted or published
+	path: string;
+	// Set for renames, and restores out of the archive folder
+	previousPath?: string;
+	// Edited since the last sync, so the conflict policy applies
+	locallyEdited?: boolean;
+	// Set for deletions when Notion tells why the page is gone
+	reason?: DeletionReason;
+}
+
+/** How a re-sync would change the `.base` file's table columns. */
+export interface BaseFileChange {
+	path: string;
+	// Set when the file is renamed, after the data sources picked changed
+	previousPath?: string;
+	// The .base file doesn't exist yet
+	created: boolean;
+	added: string[];
+	removed: string[];
+}
+
+/** Which planned changes to apply; see `applyRefreshPlan`. */
+export interface RefreshSelection {
+	keys: Set<string>;
+	baseFile: boolean;
+}
+
 export type ProgressPhase =
 	| { phase: "querying" }
 	| { phase: "diffing" }
 	| { phase: "detected"; staleCount: number; total: number }
-	| { phase: "importing"; current: number; total: number }
+	| { phase: "importing"; current: number; total: number; title?: string }
+	| { phase: "pushing"; current: number; total: number; title?: string }
+	// An entry that couldn't be synced; the sync goes on with the rest
+	| { phase: "failed"; message: string }
 	| { phase: "done" };
 
 export type ProgressCallback = (progress: ProgressPhase) => void;